@@ -0,0 +1,168 @@
+/**
+ * @file sw.js
+ * @description PYRA service worker: offline app shell, catalog, posters and favorites.
+ * - Shell: precached on install from `precache-manifest.json` (emitted by the build);
+ *   navigations are network-first and fall back to the cached `index.html`.
+ * - Hashed assets (/assets/*): cache-first.
+ * - Posters (/posters/*.jpg) and static images: cache-first, capped.
+ * - API `GET /movies…`: network-first, cached copy when offline.
+ * - API `GET /favorites…`: network-first, cached per user (keyed by the token's user id, which
+ *   survives token refreshes) so one account never sees another's list offline.
+ * - API responses are capped and dropped when the app reports a logout (`clear-api-cache` message).
+ * Writes are not handled here: the app keeps them in its outbox (src/services/outbox.ts).
+ * The API origin comes from the registration URL (`/sw.js?api=…`).
+ */
+/* eslint-disable no-restricted-globals */
+
+const VERSION = 'v3'
+const SHELL_CACHE = `pyra-shell-${VERSION}`
+const ASSET_CACHE = `pyra-assets-${VERSION}`
+const IMAGE_CACHE = `pyra-images-${VERSION}`
+const API_CACHE = `pyra-api-${VERSION}`
+const CACHES = [SHELL_CACHE, ASSET_CACHE, IMAGE_CACHE, API_CACHE]
+
+const MAX_IMAGES = 300
+const MAX_ASSETS = 120
+const MAX_API = 150
+
+const API_ORIGIN = (() => {
+  try {
+    const api = new URL(self.location.href).searchParams.get('api')
+    return api ? new URL(api, self.location.origin).href.replace(/\/$/, '') : null
+  } catch {
+    return null
+  }
+})()
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE)
+    let files = ['/', '/index.html', '/manifest.webmanifest', '/placeholder-poster.png', '/brand/pyra.svg', '/brand/pyra-icon.svg', '/brand/pyra-icon-192.png']
+    try {
+      const res = await fetch('/precache-manifest.json', { cache: 'no-store' })
+      if (res.ok) files = Array.from(new Set([...files, ...(await res.json()).files]))
+    } catch {
+      /* dev server: no manifest, runtime caching still works */
+    }
+    await Promise.all(files.map(f => cache.add(new Request(f, { cache: 'reload' })).catch(() => undefined)))
+    await self.skipWaiting()
+  })())
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names.filter(n => n.startsWith('pyra-') && !CACHES.includes(n)).map(n => caches.delete(n)))
+    await self.clients.claim()
+  })())
+})
+
+/** Keeps at most `max` entries in a cache (oldest first out). */
+async function trim(cacheName, max) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(k => cache.delete(k)))
+}
+
+async function cacheFirst(request, cacheName, max) {
+  const cache = await caches.open(cacheName)
+  const hit = await cache.match(request)
+  if (hit) return hit
+  const res = await fetch(request)
+  if (res.ok) {
+    await cache.put(request, res.clone())
+    trim(cacheName, max)
+  }
+  return res
+}
+
+/**
+ * Network first; on failure, the cached copy stored under `cacheKey`.
+ * Offline misses rethrow, so the app sees a regular network error.
+ */
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(API_CACHE)
+  try {
+    const res = await fetch(request)
+    if (res.ok) {
+      await cache.put(cacheKey, res.clone())
+      trim(API_CACHE, MAX_API)
+    }
+    return res
+  } catch (err) {
+    const hit = await cache.match(cacheKey)
+    if (hit) return hit
+    throw err
+  }
+}
+
+/**
+ * User id of the bearer token (same claims as `sessionUserId` in src/services/session.ts),
+ * or `null` when there is no readable one.
+ */
+function tokenUserId(request) {
+  const token = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  try {
+    const b64 = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    const claims = JSON.parse(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4)))
+    const id = [claims.sub, claims.id, claims.userId, claims.uid].find(v => (typeof v === 'string' && v) || typeof v === 'number')
+    return id == null ? null : String(id)
+  } catch {
+    return null
+  }
+}
+
+/** Per-user cache key: the URL plus the token's user id (`null` when unknown: not cached). */
+function userKey(request) {
+  const id = tokenUserId(request)
+  if (id == null) return null
+  const url = new URL(request.url)
+  url.searchParams.set('__user', id)
+  return url.href
+}
+
+async function navigation(request) {
+  try {
+    const res = await fetch(request)
+    if (res.ok) (await caches.open(SHELL_CACHE)).put('/index.html', res.clone())
+    return res
+  } catch {
+    const cache = await caches.open(SHELL_CACHE)
+    return (await cache.match('/index.html')) || (await cache.match('/')) || Response.error()
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigation(request))
+    return
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request, ASSET_CACHE, MAX_ASSETS))
+    } else if (/^\/(posters|brand)\/.+\.(jpe?g|png|webp|svg)$/i.test(url.pathname) || url.pathname === '/placeholder-poster.png') {
+      event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGES))
+    }
+    return
+  }
+
+  if (API_ORIGIN && request.url.startsWith(API_ORIGIN)) {
+    const path = request.url.slice(API_ORIGIN.length)
+    if (/^\/movies(\/|\?|$)/.test(path)) {
+      event.respondWith(networkFirst(request, request.url))
+    } else if (/^\/favorites(\/|\?|$)/.test(path)) {
+      const key = userKey(request)
+      if (key) event.respondWith(networkFirst(request, key))
+    }
+  }
+})
+
+self.addEventListener('message', event => {
+  // Logout: nothing cached from the API may outlive the session
+  if (event.data?.type === 'clear-api-cache') event.waitUntil(caches.delete(API_CACHE))
+})
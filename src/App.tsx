@@ -7,6 +7,8 @@ import AppRouter from './routes/AppRouter'
 import { ToastProvider } from './components/toast/ToastProvider'
 import ToastFlashMount from './components/toast/ToastFlashMount' 
 import TopLoader from './components/toploader/TopLoader' 
+import OfflineBanner from './components/offline/OfflineBanner'
+import HotkeysOverlay from './components/hotkeys/HotkeysOverlay'
 
 /**
  * @component
@@ -17,9 +19,13 @@ export default function App() {
         <ToastProvider>
             {/* Barra superior de carga para visibilidad del estado del sistema */}
             <TopLoader />
+            {/* Aviso de modo sin conexión / cambios pendientes de enviar */}
+            <OfflineBanner />
             {/* Lee y muestra la toast almacenada en sessionStorage tras una redirección */}
             <ToastFlashMount />
             <AppRouter />
+            {/* "?" muestra los atajos de teclado activos */}
+            <HotkeysOverlay />
         </ToastProvider>
     )
 }
@@ -0,0 +1,253 @@
+/**
+ * @file CommandPalette.tsx
+ * @summary Ctrl/⌘+K palette: fuzzy-searches routes, actions, commands registered by the current
+ * page and movie titles from the catalog. A dialog holding an ARIA 1.2 combobox + listbox;
+ * everything works from the keyboard (↑/↓, Inicio/Fin, Enter, Esc).
+ */
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useCommands, useRegisteredCommands } from '../../hooks/useCommands'
+import { useHotkeys } from '../../hooks/useHotkeys'
+import { useQuery } from '../../hooks/useQuery'
+import { useSession } from '../../hooks/useSession'
+import { authProvider } from '../../services/authProvider'
+import { movieKeys } from '../../services/movies'
+import { loadMovieSearch, SEARCH_STALE_MS } from '../../services/movieSearch'
+import { useAppTheme } from '../../theme/AppThemeProvider'
+import { createSearchIndex, type MatchRange } from '../../utils/searchIndex'
+import Highlight from '../movie/Highlight'
+import FeedbackModal from '../feedback/FeedbackModal'
+import './CommandPalette.scss'
+
+/** Maximum number of movie titles listed. */
+const MAX_MOVIES = 8
+
+type Item = {
+  key: string
+  group: string
+  title: string
+  ranges?: MatchRange[]
+  /** Secondary text, e.g. the year of a movie. */
+  hint?: string
+  run: () => void
+}
+
+/**
+ * @component
+ * Lives inside the router: its commands navigate.
+ * @returns The palette while open (or the feedback form it opened); nothing otherwise.
+ */
+export default function CommandPalette() {
+  const navigate = useNavigate()
+  const { status } = useSession()
+  const signedIn = status === 'authenticated'
+  const { themeName, toggle: toggleTheme } = useAppTheme()
+
+  const [open, setOpen] = useState(false)
+  const [feedbackOpen, setFeedbackOpen] = useState(false)
+  const [q, setQ] = useState('')
+  const [active, setActive] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listId = useId()
+  const optionId = (i: number) => `${listId}-opt-${i}`
+
+  function close() {
+    setOpen(false)
+    setQ('')
+  }
+
+  /* -------- Comandos de la aplicación -------- */
+  const go = (path: string) => () => navigate(path)
+  useCommands([
+    { id: 'nav:home', title: 'Inicio', group: 'Ir a', keywords: ['home', 'portada'], run: go('/') },
+    { id: 'nav:movies', title: 'Películas', group: 'Ir a', keywords: ['catálogo', 'movies', 'buscar'], run: go('/movies') },
+    { id: 'nav:favorites', title: 'Favoritos', group: 'Ir a', keywords: ['favorites', 'guardadas'], run: go('/favorites') },
+    { id: 'nav:account', title: 'Mi cuenta', group: 'Ir a', keywords: ['perfil', 'account', 'contraseña'], run: go('/account') },
+    { id: 'nav:about', title: 'Sobre nosotros', group: 'Ir a', keywords: ['about', 'equipo'], run: go('/about') },
+    { id: 'nav:site-map', title: 'Mapa del sitio', group: 'Ir a', keywords: ['sitemap'], run: go('/site-map') },
+    { id: 'app:logout', title: 'Cerrar sesión', group: 'Acciones', keywords: ['logout', 'salir'], run: logout },
+  ], { enabled: signedIn })
+  useCommands([
+    { id: 'nav:login', title: 'Iniciar sesión', group: 'Ir a', keywords: ['login', 'entrar'], run: go('/login') },
+    { id: 'nav:register', title: 'Crear cuenta', group: 'Ir a', keywords: ['registro', 'register'], run: go('/register') },
+  ], { enabled: !signedIn })
+  useCommands([
+    {
+      id: 'app:theme',
+      title: themeName === 'dark' ? 'Cambiar a tema claro' : 'Cambiar a tema oscuro',
+      group: 'Acciones',
+      keywords: ['tema', 'theme', 'modo', 'oscuro', 'claro'],
+      run: toggleTheme,
+    },
+    { id: 'app:feedback', title: 'Enviar feedback', group: 'Acciones', keywords: ['idea', 'bug', 'sugerencia', 'contacto'], run: () => setFeedbackOpen(true) },
+  ])
+
+  async function logout() {
+    try {
+      await authProvider.logout()
+    } finally {
+      navigate('/login', { replace: true })
+    }
+  }
+
+  /* -------- Atajos -------- */
+  useHotkeys([
+    { keys: 'mod+k', description: 'Abrir la paleta de comandos', allowInInputs: true, handler: () => setOpen(true) },
+  ])
+  useHotkeys([
+    { keys: ['escape', 'mod+k'], description: 'Cerrar la paleta de comandos', scope: 'modal', allowInInputs: true, handler: close },
+    // El foco se queda en el cuadro de búsqueda: las opciones se recorren con las flechas
+    { keys: ['tab', 'shift+tab'], description: 'Mantener el foco en la paleta', scope: 'modal', allowInInputs: true, hidden: true, handler: () => {} },
+  ], { enabled: open })
+
+  // Foco al cuadro de búsqueda y, al cerrar, de vuelta a donde estaba
+  useEffect(() => {
+    if (!open) return
+    const previous = document.activeElement as HTMLElement | null
+    inputRef.current?.focus()
+    return () => previous?.focus()
+  }, [open])
+
+  /* -------- Resultados -------- */
+  const commands = useRegisteredCommands()
+  const commandIndex = useMemo(
+    () => createSearchIndex(commands, c => ({ title: c.title, genres: (c.keywords ?? []).join(' '), description: c.group })),
+    [commands]
+  )
+  // El catálogo (y su índice) se comparte con la página de películas
+  const { data: movieSearch } = useQuery(movieKeys.search(), loadMovieSearch, {
+    enabled: open && signedIn,
+    staleTime: SEARCH_STALE_MS,
+  })
+
+  const term = q.trim()
+  const items: Item[] = useMemo(() => {
+    if (!term) return commands.map(c => ({ key: c.id, group: c.group, title: c.title, run: c.run }))
+    const found: Item[] = commandIndex.search(term).map(({ item: c, matches }) => ({
+      key: c.id, group: c.group, title: c.title, ranges: matches.title, run: c.run,
+    }))
+    for (const { item: m, matches } of movieSearch?.index.search(term, MAX_MOVIES) ?? []) {
+      found.push({
+        key: `movie:${m.id}`,
+        group: 'Películas',
+        title: m.title,
+        ranges: matches.title,
+        hint: m.year ? String(m.year) : undefined,
+        run: () => navigate(`/movie/${encodeURIComponent(m.id)}`, { state: { breadcrumb: m.title } }),
+      })
+    }
+    return found
+  }, [term, commands, commandIndex, movieSearch, navigate])
+
+  // Agrupa conservando el orden en que aparece cada grupo; `ordered` sigue el orden visual
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, Item[]>()
+    for (const item of items) byGroup.set(item.group, [...(byGroup.get(item.group) ?? []), item])
+    return [...byGroup.entries()]
+  }, [items])
+  const ordered = groups.flatMap(([, list]) => list)
+
+  useEffect(() => { setActive(0) }, [items])
+  useEffect(() => {
+    if (open) document.getElementById(optionId(active))?.scrollIntoView({ block: 'nearest' })
+  }, [active, open]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  function choose(item: Item | undefined) {
+    if (!item) return
+    close()
+    item.run()
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    const count = ordered.length
+    if (!count) return
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActive(i => (i + 1) % count)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActive(i => (i <= 0 ? count - 1 : i - 1))
+        break
+      case 'Home':
+        e.preventDefault()
+        setActive(0)
+        break
+      case 'End':
+        e.preventDefault()
+        setActive(count - 1)
+        break
+      case 'Enter':
+        e.preventDefault()
+        choose(ordered[active])
+        break
+    }
+  }
+
+  if (feedbackOpen) {
+    return <FeedbackModal prefill="" onClose={() => setFeedbackOpen(false)} onSent={() => setFeedbackOpen(false)} />
+  }
+  if (!open) return null
+
+  const count = ordered.length
+  return (
+    <div className="cmdk-backdrop" onMouseDown={e => { if (e.target === e.currentTarget) close() }}>
+      <div className="cmdk" role="dialog" aria-modal="true" aria-label="Paleta de comandos">
+        <input
+          ref={inputRef}
+          className="cmdk__input"
+          type="text"
+          placeholder="Busca una página, una acción o una película…"
+          aria-label="Buscar comandos y películas"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={count > 0}
+          aria-controls={listId}
+          aria-activedescendant={count ? optionId(active) : undefined}
+          autoComplete="off"
+          spellCheck={false}
+          value={q}
+          onChange={e => setQ(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+
+        <div id={listId} role="listbox" aria-label="Resultados" className="cmdk__list">
+          {groups.map(([group, list], g) => (
+            <div key={group} role="group" aria-labelledby={`${listId}-group-${g}`} className="cmdk__group">
+              <div id={`${listId}-group-${g}`} role="presentation" className="cmdk__heading">{group}</div>
+              {list.map(item => {
+                const index = ordered.indexOf(item)
+                return (
+                  <div
+                    key={item.key}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={index === active}
+                    className={`cmdk__option ${index === active ? 'is-active' : ''}`}
+                    // mousedown movería el foco fuera del cuadro de búsqueda
+                    onMouseDown={e => e.preventDefault()}
+                    onMouseMove={() => { if (index !== active) setActive(index) }}
+                    onClick={() => choose(item)}
+                  >
+                    <span className="cmdk__title"><Highlight text={item.title} ranges={item.ranges} /></span>
+                    {item.hint && <span className="cmdk__hint">{item.hint}</span>}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        {term && count === 0 && <p className="cmdk__empty">Nada coincide con “{term}”.</p>}
+        <p className="cmdk__footer" aria-hidden="true">
+          <kbd>↑</kbd><kbd>↓</kbd> moverse · <kbd>Enter</kbd> abrir · <kbd>Esc</kbd> cerrar
+        </p>
+
+        <span className="sr-only" role="status" aria-live="polite">
+          {term ? `${count} resultados` : ''}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 import { Feedback, FeedbackCategory } from '../../services/feedback'
 import { useToast } from '../../components/toast/ToastProvider'
+import { useHotkeys } from '../../hooks/useHotkeys'
 import './FeedbackModal.scss'
 
 function FeedbackModal({
@@ -19,12 +20,8 @@ function FeedbackModal({
 
     const { success: showOkToast, error: showErrorToast } = useToast()
 
-    // Cerrar con ESC
-    useEffect(() => {
-        const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
-        window.addEventListener('keydown', onKey)
-        return () => window.removeEventListener('keydown', onKey)
-    }, [onClose])
+    // Cerrar con ESC (también mientras se escribe el mensaje)
+    useHotkeys([{ keys: 'escape', description: 'Cerrar el formulario de feedback', scope: 'modal', allowInInputs: true, handler: onClose }])
 
     async function submit() {
         if (!msg.trim() || loading) return
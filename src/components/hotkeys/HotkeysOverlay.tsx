@@ -0,0 +1,87 @@
+/**
+ * @file HotkeysOverlay.tsx
+ * @summary Dialog listing every keyboard shortcut active on the current screen, opened with `?`.
+ */
+import { useEffect, useRef, useState } from 'react'
+import { useActiveHotkeys, useHotkeys } from '../../hooks/useHotkeys'
+import { describeSequence, type ActiveHotkey, type HotkeyScope } from '../../services/hotkeys'
+import './HotkeysOverlay.scss'
+
+const SCOPE_TITLES: Record<HotkeyScope, string> = {
+  modal: 'En esta ventana',
+  page: 'En esta página',
+  global: 'En toda la aplicación',
+}
+
+/**
+ * @component
+ * @returns The shortcuts dialog while open; nothing otherwise.
+ */
+export default function HotkeysOverlay() {
+  const [open, setOpen] = useState(false)
+  const closeRef = useRef<HTMLButtonElement>(null)
+
+  // Mientras está abierto, su propio Escape (capa modal) pausa el resto:
+  // se muestra la lista tal como estaba al abrirlo
+  const active = useActiveHotkeys()
+  const listed = useRef<ActiveHotkey[]>(active)
+  if (!open) listed.current = active
+
+  useHotkeys([
+    { keys: ['?', '¿'], description: 'Mostrar atajos de teclado', handler: () => setOpen(true) },
+  ])
+  useHotkeys([
+    { keys: 'escape', description: 'Cerrar los atajos de teclado', scope: 'modal', allowInInputs: true, handler: () => setOpen(false) },
+  ], { enabled: open })
+
+  // Foco al botón de cerrar y, al salir, de vuelta a donde estaba
+  useEffect(() => {
+    if (!open) return
+    const previous = document.activeElement as HTMLElement | null
+    closeRef.current?.focus()
+    return () => previous?.focus()
+  }, [open])
+
+  if (!open) return null
+
+  const groups = (['modal', 'page', 'global'] as const)
+    .map(scope => ({ scope, items: listed.current.filter(h => h.scope === scope) }))
+    .filter(g => g.items.length)
+
+  return (
+    <div className="hotkeys-backdrop" onClick={e => { if (e.target === e.currentTarget) setOpen(false) }}>
+      <div className="hotkeys-modal" role="dialog" aria-modal="true" aria-labelledby="hotkeys-title">
+        <header className="hotkeys-header">
+          <h3 id="hotkeys-title">Atajos de teclado</h3>
+          <button ref={closeRef} type="button" className="close" onClick={() => setOpen(false)} aria-label="Cerrar">×</button>
+        </header>
+
+        {groups.map(({ scope, items }) => (
+          <section key={scope} className="hotkeys-group" aria-labelledby={`hotkeys-${scope}`}>
+            <h4 id={`hotkeys-${scope}`}>{SCOPE_TITLES[scope]}</h4>
+            <dl>
+              {items.map(h => (
+                <div key={h.id} className="hotkeys-item">
+                  <dt>
+                    {h.sequences.map((seq, i) => (
+                      <span key={i} className="hotkeys-keys">
+                        {i > 0 && <span className="hotkeys-or">o</span>}
+                        {describeSequence(seq).map((k, j) => (
+                          <span key={j}>
+                            {j > 0 && <span className="hotkeys-then">luego</span>}
+                            <kbd>{k}</kbd>
+                          </span>
+                        ))}
+                      </span>
+                    ))}
+                  </dt>
+                  <dd>{h.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -6,7 +6,8 @@
 import type { MouseEvent } from 'react'
 import { Link, useLocation, useNavigate } from 'react-router-dom'
 import './Footer.scss'
-import { Auth, getToken } from '../../services/auth'
+import { authProvider } from '../../services/authProvider'
+import { useSession } from '../../hooks/useSession'
 
 /**
  * @component
@@ -16,6 +17,7 @@ export default function Footer() {
   const year = new Date().getFullYear()
   const navigate = useNavigate()
   const location = useLocation()
+  const session = useSession()
 
   // Existing/handy navigation links (adjust if new routes are added)
   const explorar = [
@@ -36,11 +38,15 @@ export default function Footer() {
     { href: '/manual/Manual.pdf', label: 'Manual de usuario (PDF)', external: true },
   ] as const
 
-  const handleAuthLinkClick = (event: MouseEvent<HTMLAnchorElement>, to: string) => {
+  const handleAuthLinkClick = async (event: MouseEvent<HTMLAnchorElement>, to: string) => {
     event.preventDefault()
-    const tokenSnapshot = getToken()
+    if (session.status === 'authenticated') {
+      // /login y /register son solo para invitados: cerrar sesión revoca el token en el backend,
+      // así que se pide confirmación en vez de hacerlo al navegar.
+      if (!window.confirm('Ya tienes una sesión iniciada. ¿Cerrarla para continuar?')) return
+    }
     try {
-      Auth.logout()
+      if (session.status === 'authenticated') await authProvider.logout()
     } finally {
       const returnTo = `${location.pathname}${location.search}${location.hash}`
       navigate(to, {
@@ -48,7 +54,6 @@ export default function Footer() {
         state: {
           fromFooter: true,
           returnTo,
-          tokenSnapshot,
         },
       })
     }
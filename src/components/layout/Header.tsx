@@ -8,53 +8,11 @@
 import { Link, NavLink, useNavigate, useLocation } from 'react-router-dom'
 import { useMemo, useState, useEffect, useRef } from 'react'
 import Switch from '../../components/Switch/Switch'
+import SearchBox from './SearchBox'
 import './Header.scss'
-import { supa } from '../../services/supa' // ⬅️ Supabase para intentar obtener nombre
-import { Auth, TOKEN_EVENT } from '../../services/auth'
-
-// --- Helpers para obtener un nombre legible ---
-function decodeNameFromJWT(token: string | null): string | null {
-  if (!token) return null
-  try {
-    const [, payload] = token.split('.')
-    if (!payload) return null
-    const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
-    return (
-      json.name ||
-      json.full_name ||
-      json.given_name ||
-      json.preferred_username ||
-      (json.email ? String(json.email).split('@')[0] : null) ||
-      null
-    )
-  } catch {
-    return null
-  }
-}
-
-function guessNameFromLocalStorage(): string | null {
-  try {
-    const direct =
-      localStorage.getItem('full_name') ||
-      localStorage.getItem('name') ||
-      localStorage.getItem('username') ||
-      null
-    if (direct) return direct
-
-    const userRaw =
-      localStorage.getItem('user') ||
-      localStorage.getItem('profile') ||
-      localStorage.getItem('account') ||
-      null
-    if (userRaw) {
-      const u = JSON.parse(userRaw)
-      return u?.full_name || u?.name || u?.username || (u?.email ? u.email.split('@')[0] : null) || null
-    }
-  } catch {
-    /* noop */
-  }
-  return null
-}
+import { authProvider } from '../../services/authProvider'
+import { useAuthUser } from '../../hooks/useAuthUser'
+import { useHotkeys } from '../../hooks/useHotkeys'
 
 // Reduce any raw name/email/usernames to a friendly first name for display
 function extractFirstName(raw: string | null): string | null {
@@ -74,9 +32,8 @@ function extractFirstName(raw: string | null): string | null {
 }
 
 export default function Header() {
-  const [q, setQ] = useState('')
   const [menuOpen, setMenuOpen] = useState(false)
-  const [displayName, setDisplayName] = useState<string | null>(null) // ⬅️ nombre mostrado
+  const user = useAuthUser() // ⬅️ usuario actual (API propia o Supabase)
 
   const navigate = useNavigate()
   const { pathname } = useLocation()
@@ -101,71 +58,8 @@ export default function Header() {
     }
   }, [])
 
-  // Intentar resolver el nombre (Supabase → token → localStorage)
-  useEffect(() => {
-    let mounted = true
-    async function resolveDisplayName() {
-      let name: string | null = null
-
-      // 0) API propia (Auth.me) con datos de perfil
-      try {
-        const me = await Auth.me()
-        const u = me?.user
-        if (u) {
-          name = u.name || null
-          if (!name && u.email) name = u.email
-        }
-      } catch {
-        /* noop */
-      }
-
-      // 1) Supabase user + (opcional) tabla profiles
-      try {
-        const { data } = await supa.auth.getUser()
-        const user = data?.user
-        if (user) {
-          name =
-            (user.user_metadata as any)?.full_name ||
-            (user.user_metadata as any)?.name ||
-            (user.user_metadata as any)?.username ||
-            null
-
-          if (!name) {
-            const { data: profile } = await supa
-              .from('profiles')
-              .select('full_name, name, username')
-              .eq('id', user.id)
-              .maybeSingle()
-            name = profile?.full_name || profile?.name || profile?.username || null
-          }
-
-          if (!name && user.email) name = user.email.split('@')[0]
-        }
-      } catch {
-        /* noop */
-      }
-
-      // 2) JWT en localStorage
-      if (!name) name = decodeNameFromJWT(localStorage.getItem('token'))
-
-      // 3) Claves varias en localStorage
-      if (!name) name = guessNameFromLocalStorage()
-
-      if (mounted) setDisplayName(extractFirstName(name))
-    }
-
-    resolveDisplayName()
-
-    const onToken = () => resolveDisplayName()
-    if (typeof window !== 'undefined') window.addEventListener(TOKEN_EVENT, onToken)
-
-    const sub = supa.auth.onAuthStateChange(() => resolveDisplayName())
-    return () => {
-      mounted = false
-      sub.data?.subscription?.unsubscribe?.()
-      if (typeof window !== 'undefined') window.removeEventListener(TOKEN_EVENT, onToken)
-    }
-  }, [])
+  // Nombre visible: nombre del perfil o, en su defecto, el correo
+  const displayName = useMemo(() => extractFirstName(user?.name || user?.email || null), [user])
 
   // Hide header on public screens
   const hide = useMemo(
@@ -176,39 +70,24 @@ export default function Header() {
   // Close mobile menu on route change
   useEffect(() => { setMenuOpen(false) }, [pathname])
 
-  // Global hotkeys: ESC cierra menú; "/" enfoca búsqueda (si no estás escribiendo ya)
-  useEffect(() => {
-    const isEditable = (t: EventTarget | null) => {
-      const el = t as HTMLElement | null
-      if (!el) return false
-      const tag = el.tagName?.toLowerCase()
-      return tag === 'input' || tag === 'textarea' || tag === 'select' || (el as any)?.isContentEditable
-    }
-    const onKey = (e: KeyboardEvent) => {
-      if (e.altKey || e.ctrlKey || e.metaKey) return
-      if (e.key === 'Escape' && menuOpen) setMenuOpen(false)
-      if ((e.key === '/' || e.key === '¿' || e.key === '?') && !isEditable(e.target)) {
-        e.preventDefault()
-        searchRef.current?.focus()
-      }
-    }
-    window.addEventListener('keydown', onKey)
-    return () => window.removeEventListener('keydown', onKey)
-  }, [menuOpen])
+  // Global hotkeys: "/" enfoca la búsqueda y abre sus sugerencias; "g" + letra navega; ESC cierra el menú
+  useHotkeys([
+    { keys: '/', description: 'Buscar películas', handler: () => searchRef.current?.focus() },
+    { keys: 'g h', description: 'Ir a Inicio', handler: () => navigate('/') },
+    { keys: 'g m', description: 'Ir a Películas', handler: () => navigate('/movies') },
+    { keys: 'g f', description: 'Ir a Favoritos', handler: () => navigate('/favorites') },
+    { keys: 'g a', description: 'Ir a Mi cuenta', handler: () => navigate('/account') },
+  ], { enabled: !hide })
+  useHotkeys([
+    { keys: 'escape', description: 'Cerrar el menú', allowInInputs: true, handler: () => setMenuOpen(false) },
+  ], { enabled: !hide && menuOpen })
 
   if (hide) return null
 
-  function onSearch(e: React.FormEvent) {
-    e.preventDefault()
-    const term = q.trim()
-    navigate(term ? `/movies?q=${encodeURIComponent(term)}` : '/movies')
-  }
-
   async function onLogout() {
     try {
-      // await fetch(`${import.meta.env.VITE_API_URL}/auth/logout`, { method:'POST', credentials:'include' }).catch(()=>{})
+      await authProvider.logout() // revoca en backend + Supabase y limpia datos locales
     } finally {
-      localStorage.removeItem('token')
       navigate('/login', { replace: true })
     }
   }
@@ -257,19 +136,7 @@ export default function Header() {
           </nav>
 
           <div className='right'>
-            <form className='search' onSubmit={onSearch} role='search' aria-label='Buscar'>
-              <input
-                ref={searchRef}
-                className='search__input'
-                type='search'
-                inputMode='search'
-                placeholder='Buscar…'
-                aria-label='Texto de búsqueda'
-                aria-keyshortcuts='/'
-                value={q}
-                onChange={(e) => setQ(e.target.value)}
-              />
-            </form>
+            <SearchBox ref={searchRef} userId={user?.id ?? null} />
 
             <NavLink to='/account' className='avatar-btn hit-24' aria-label='Cuenta'>👤</NavLink>
 
@@ -0,0 +1,228 @@
+/**
+ * @file SearchBox.tsx
+ * @description Header search with search-as-you-type suggestions (ARIA 1.2 combobox + listbox).
+ * Shows matching titles with poster and year while typing, or the user's recent searches
+ * when empty. Enter on a title opens `/movie/:id`; Enter otherwise searches `/movies?q=`.
+ */
+import { forwardRef, useEffect, useId, useImperativeHandle, useRef, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { Movies } from '../../services/movies'
+import { isAbortError } from '../../services/api'
+import { posterCandidatesFrom } from '../../utils/poster'
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '../../utils/recentSearches'
+import type { Movie } from '../../types'
+
+/** Delay before querying the API after the last keystroke. */
+const DEBOUNCE_MS = 200
+/** Maximum number of title suggestions. */
+const MAX_SUGGESTIONS = 6
+
+type Option =
+  | { kind: 'movie'; movie: Movie }
+  | { kind: 'recent'; term: string }
+
+function thumbOf(m: Movie): string {
+  return m.posterUrl || posterCandidatesFrom(m)[0] || '/placeholder-poster.png'
+}
+
+type SearchBoxProps = {
+  /** Owner of the recent-search history (`null` when anonymous). */
+  userId: string | null
+}
+
+/**
+ * @component
+ * The forwarded ref is the text input, so the header's `/` hotkey can focus it (which opens the list).
+ */
+const SearchBox = forwardRef<HTMLInputElement, SearchBoxProps>(function SearchBox({ userId }, ref) {
+  const navigate = useNavigate()
+  const { pathname } = useLocation()
+  const listId = useId()
+  const inputRef = useRef<HTMLInputElement>(null)
+  useImperativeHandle(ref, () => inputRef.current as HTMLInputElement)
+
+  const [q, setQ] = useState('')
+  const [open, setOpen] = useState(false)
+  const [active, setActive] = useState(-1)
+  const [results, setResults] = useState<Movie[]>([])
+  const [loading, setLoading] = useState(false)
+  const [recent, setRecent] = useState<string[]>(() => getRecentSearches(userId))
+
+  // Recent searches belong to whoever is signed in
+  useEffect(() => { setRecent(getRecentSearches(userId)) }, [userId])
+
+  // Close on route change
+  useEffect(() => { setOpen(false) }, [pathname])
+
+  // Debounced suggestions; each new keystroke cancels the pending request
+  const term = q.trim()
+  useEffect(() => {
+    setActive(-1)
+    if (!term) {
+      setResults([])
+      setLoading(false)
+      return
+    }
+    const ctrl = new AbortController()
+    setLoading(true)
+    const t = window.setTimeout(async () => {
+      try {
+        const res = await Movies.list({ q: term, page: 1, pageSize: MAX_SUGGESTIONS }, { signal: ctrl.signal, retries: 0 })
+        setResults(res.items.slice(0, MAX_SUGGESTIONS))
+      } catch (e) {
+        if (isAbortError(e)) return
+        setResults([]) // suggestions are best-effort: Enter still searches
+      } finally {
+        if (!ctrl.signal.aborted) setLoading(false)
+      }
+    }, DEBOUNCE_MS)
+    return () => {
+      window.clearTimeout(t)
+      ctrl.abort()
+    }
+  }, [term])
+
+  const options: Option[] = term
+    ? results.map(movie => ({ kind: 'movie' as const, movie }))
+    : recent.map(t => ({ kind: 'recent' as const, term: t }))
+  const expanded = open && (options.length > 0 || (!!term && !loading))
+  const optionId = (i: number) => `${listId}-opt-${i}`
+
+  function searchFor(text: string) {
+    const t = text.trim()
+    if (t) setRecent(addRecentSearch(userId, t))
+    setOpen(false)
+    inputRef.current?.blur()
+    navigate(t ? `/movies?q=${encodeURIComponent(t)}` : '/movies')
+  }
+
+  function choose(opt: Option) {
+    if (opt.kind === 'recent') {
+      setQ(opt.term)
+      return searchFor(opt.term)
+    }
+    if (term) setRecent(addRecentSearch(userId, term))
+    setOpen(false)
+    inputRef.current?.blur()
+    navigate(`/movie/${encodeURIComponent(opt.movie.id)}`, { state: { breadcrumb: opt.movie.title } })
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setOpen(true)
+        if (options.length) setActive(i => (i + 1) % options.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setOpen(true)
+        if (options.length) setActive(i => (i <= 0 ? options.length - 1 : i - 1))
+        break
+      case 'Enter':
+        if (expanded && active >= 0 && options[active]) {
+          e.preventDefault()
+          choose(options[active])
+        }
+        break
+      case 'Escape':
+        if (expanded) {
+          e.preventDefault()
+          e.stopPropagation()
+          setOpen(false)
+          setActive(-1)
+        } else if (q) {
+          setQ('')
+        }
+        break
+    }
+  }
+
+  function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    searchFor(q)
+  }
+
+  return (
+    <form className='search' onSubmit={onSubmit} role='search' aria-label='Buscar'>
+      <input
+        ref={inputRef}
+        className='search__input'
+        type='search'
+        inputMode='search'
+        placeholder='Buscar…'
+        aria-label='Texto de búsqueda'
+        aria-keyshortcuts='/'
+        role='combobox'
+        aria-autocomplete='list'
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded && active >= 0 ? optionId(active) : undefined}
+        autoComplete='off'
+        value={q}
+        onChange={e => { setQ(e.target.value); setOpen(true) }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+      />
+
+      <div className='search__popup' hidden={!expanded}>
+        {!term && options.length > 0 && <p className='search__heading'>Búsquedas recientes</p>}
+        <ul id={listId} role='listbox' aria-label={term ? 'Sugerencias' : 'Búsquedas recientes'} className='search__list'>
+          {options.map((opt, i) => (
+            <li
+              key={opt.kind === 'movie' ? opt.movie.id : opt.term}
+              id={optionId(i)}
+              role='option'
+              aria-selected={i === active}
+              className={`search__option ${i === active ? 'is-active' : ''}`}
+              // mousedown would blur the input (and close the list) before the click lands
+              onMouseDown={e => e.preventDefault()}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => choose(opt)}
+            >
+              {opt.kind === 'movie' ? (
+                <>
+                  <img
+                    className='search__thumb'
+                    src={thumbOf(opt.movie)}
+                    alt=''
+                    loading='lazy'
+                    onError={e => { e.currentTarget.src = '/placeholder-poster.png' }}
+                  />
+                  <span className='search__title'>{opt.movie.title}</span>
+                  {!!opt.movie.year && <span className='search__year'>{opt.movie.year}</span>}
+                </>
+              ) : (
+                <>
+                  <span aria-hidden='true' className='search__icon'>🕘</span>
+                  <span className='search__title'>{opt.term}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        {term && !loading && options.length === 0 && (
+          <p className='search__empty'>Sin coincidencias. Pulsa Enter para buscar “{term}”.</p>
+        )}
+        {!term && options.length > 0 && (
+          <button
+            type='button'
+            className='search__clear'
+            onMouseDown={e => e.preventDefault()}
+            onClick={() => { clearRecentSearches(userId); setRecent([]) }}
+          >
+            Borrar historial
+          </button>
+        )}
+      </div>
+
+      {/* Live region for screen readers: how many suggestions are available */}
+      <span className='sr-only' role='status' aria-live='polite'>
+        {expanded && term && !loading ? `${options.length} sugerencias` : ''}
+      </span>
+    </form>
+  )
+})
+
+export default SearchBox
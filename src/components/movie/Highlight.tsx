@@ -0,0 +1,57 @@
+/**
+ * @file Highlight.tsx
+ * @summary Renders text with search matches wrapped in <mark>.
+ */
+import type { MatchRange } from '../../utils/searchIndex'
+
+/** Sorts and merges overlapping or touching ranges. */
+function merge(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const out: MatchRange[] = []
+  for (const r of sorted) {
+    const last = out[out.length - 1]
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1])
+    else out.push([r[0], r[1]])
+  }
+  return out
+}
+
+/**
+ * @component
+ * @param text - Original text.
+ * @param ranges - Character ranges to mark.
+ */
+export default function Highlight({ text, ranges = [] }: { text: string; ranges?: MatchRange[] }) {
+  if (!ranges.length) return <>{text}</>
+  const parts: React.ReactNode[] = []
+  let pos = 0
+  for (const [start, end] of merge(ranges)) {
+    if (start > pos) parts.push(text.slice(pos, start))
+    parts.push(<mark key={start} className='search-hit'>{text.slice(start, end)}</mark>)
+    pos = end
+  }
+  if (pos < text.length) parts.push(text.slice(pos))
+  return <>{parts}</>
+}
+
+/**
+ * Cuts a short excerpt of `text` around its first match, shifting the ranges to fit.
+ * @param text - Long text (e.g. a description).
+ * @param ranges - Matches in `text`.
+ * @param context - Characters kept on each side of the first match.
+ */
+export function excerpt(text: string, ranges: MatchRange[], context = 40): { text: string; ranges: MatchRange[] } {
+  const [first] = merge(ranges)
+  if (!first) return { text, ranges }
+  const from = Math.max(0, first[0] - context)
+  const to = Math.min(text.length, first[1] + context * 2)
+  const prefix = from > 0 ? '…' : ''
+  const suffix = to < text.length ? '…' : ''
+  const shift = prefix.length - from
+  return {
+    text: prefix + text.slice(from, to) + suffix,
+    ranges: ranges
+      .filter(([s, e]) => s >= from && e <= to)
+      .map(([s, e]) => [s + shift, e + shift] as MatchRange),
+  }
+}
@@ -3,7 +3,7 @@
  * @summary Reusable movie card with lazy-loaded posters and accessible rating output.
  */
 import { Link } from 'react-router-dom'
-import { useMemo, useEffect, useState } from 'react'
+import { useMemo, useEffect, useState, type ReactNode } from 'react'
 import type { Movie } from '../../types'
 import './MovieCard.scss'
 import { posterCandidatesFrom } from '../../utils/poster'
@@ -13,39 +13,31 @@ function baseUrl() {
   return b.endsWith('/') ? b.slice(0, -1) : b
 }
 
-function guessPosterFromApi(m: any): string | undefined {
-  return (
-    m?.poster ||
-    m?.posterUrl ||
-    m?.poster_url ||
-    m?.image ||
-    m?.cover ||
-    m?.thumbnail ||
-    m?.images?.poster
-  )
-}
-
-function calcStars(m: any) {
-  let r = Number(m?.rating ?? m?.score ?? m?.vote_average ?? 0)
-  if (Number.isNaN(r)) r = 0
-  if (r > 5) r = r / 2
-  r = Math.max(0, Math.min(5, r))
+function calcStars(m: Movie) {
+  const r = m.avgRating ?? 0
   const full = Math.round(r)
   const stars = '★'.repeat(full) + '☆'.repeat(5 - full)
   const aria = r ? `${r.toFixed(1)} de 5` : 'Sin calificación'
   return { stars, aria }
 }
 
-export default function MovieCard({ movie }: { movie: Movie }) {
+/** Optional search highlighting: marked-up title and a matching excerpt. */
+export type MovieCardHighlight = { title?: ReactNode; snippet?: ReactNode }
+
+/**
+ * @param movie - Movie to show.
+ * @param highlight - Search highlighting.
+ * @param footer - Extra content under the details (e.g. watch progress), inside the link.
+ */
+export default function MovieCard({ movie, highlight, footer }: { movie: Movie; highlight?: MovieCardHighlight; footer?: ReactNode }) {
   const titleText = (movie?.title ?? '').toString().trim() || 'Película sin título'
-  const { stars, aria } = useMemo(() => calcStars(movie as any), [movie])
+  const { stars, aria } = useMemo(() => calcStars(movie), [movie])
 
   const placeholderSrc = `${baseUrl()}/placeholder-poster.png`
 
   // Candidatos: API primero; luego locales; prefija BASE_URL si empiezan por "/"
   const candidates = useMemo(() => {
-    const fromApi = guessPosterFromApi(movie as any)
-    const list = fromApi ? [String(fromApi)] : posterCandidatesFrom(movie)
+    const list = movie.posterUrl ? [movie.posterUrl] : posterCandidatesFrom(movie)
     return list.map(u => (u.startsWith('/') ? `${baseUrl()}${u}` : u))
   }, [movie])
 
@@ -66,12 +58,7 @@ export default function MovieCard({ movie }: { movie: Movie }) {
     setIdx(i => (i < candidates.length ? i + 1 : i))
   }
 
-  const movieId =
-    (movie as any)._id ??
-    (movie as any).id ??
-    (movie as any).slug ??
-    null
-  const to = movieId ? `/movie/${encodeURIComponent(String(movieId))}` : '/movies'
+  const to = movie.id ? `/movie/${encodeURIComponent(movie.id)}` : '/movies'
 
   return (
     <article className='movie-card'>
@@ -109,14 +96,16 @@ export default function MovieCard({ movie }: { movie: Movie }) {
         </div>
 
         <div className='info'>
-          <h3>{titleText}</h3>
+          <h3>{highlight?.title ?? titleText}</h3>
           <p className='meta'>
-            {(movie as any).year} • {((movie as any).genres || []).slice(0, 2).join(' / ')}
+            {movie.year} • {movie.genres.slice(0, 2).join(' / ')}
           </p>
           <p className='stars' aria-label={`Calificación: ${aria}`}>
             <span aria-hidden='true'>{stars}</span>
           </p>
+          {highlight?.snippet && <p className='snippet'>{highlight.snippet}</p>}
         </div>
+        {footer}
       </Link>
     </article>
   )
@@ -0,0 +1,267 @@
+/**
+ * @file MovieGrid.tsx
+ * @summary Virtualised movie grid: only the rows near the viewport are mounted (so only
+ * those cards probe poster candidates), further pages load as the end scrolls into view,
+ * and the scroll position is restored when the user comes back with the browser's Back.
+ */
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react'
+import { useLocation, useNavigationType } from 'react-router-dom'
+import MovieCard from './MovieCard'
+import { slugify } from '../../utils/slug'
+import './MovieGrid.scss'
+
+/** Scroll state saved per history entry so Back can restore it. */
+export type GridSnapshot = {
+  /** `window.scrollY` when the user left the page. */
+  scrollY: number
+  /** Number of items loaded at that time (pages use it to reload as many). */
+  count: number
+  /** Last measured row height, so the restored layout matches before re-measuring. */
+  rowHeight: number
+}
+
+const SNAPSHOT_PREFIX = 'movie-grid:'
+
+function readSnapshot(key: string): GridSnapshot | null {
+  try {
+    const raw = sessionStorage.getItem(SNAPSHOT_PREFIX + key)
+    return raw ? (JSON.parse(raw) as GridSnapshot) : null
+  } catch {
+    return null
+  }
+}
+
+function writeSnapshot(key: string, snap: GridSnapshot) {
+  try {
+    sessionStorage.setItem(SNAPSHOT_PREFIX + key, JSON.stringify(snap))
+  } catch {
+    /* noop: storage full or disabled */
+  }
+}
+
+/**
+ * Snapshot saved for the current history entry, when the page was reached with Back/Forward.
+ * Read once per mount; pages use `count` to load as many items as before.
+ */
+export function useGridSnapshot(): GridSnapshot | null {
+  const location = useLocation()
+  const navType = useNavigationType()
+  const [snap] = useState(() => (navType === 'POP' ? readSnapshot(location.key) : null))
+  return snap
+}
+
+/**
+ * Stable React key for a movie-like object: its `id`, else title + year + index.
+ * @param m - Movie (or any item with `id`/`title`/`year`).
+ * @param i - Position in the list.
+ */
+export function movieKey(m: any, i: number) {
+  return String(m?.id ?? `${slugify(String(m?.title ?? ''))}-${m?.year ?? ''}-${i}`)
+}
+
+/**
+ * Appends a newly fetched page, dropping items already shown (pages can overlap when the catalog changes).
+ * @param prev - Movies already shown.
+ * @param next - Newly fetched page.
+ */
+export function appendUnique<T>(prev: T[], next: T[]) {
+  const seen = new Set(prev.map(movieKey))
+  const fresh = next.filter((m, i) => !seen.has(movieKey(m, prev.length + i)))
+  return fresh.length ? [...prev, ...fresh] : prev
+}
+
+type MovieGridProps<T> = {
+  /** Items loaded so far. */
+  items: T[]
+  /** Renders one cell (defaults to a MovieCard). */
+  renderItem?: (item: T, index: number) => ReactNode
+  /** Stable key per item (defaults to {@link movieKey}). */
+  getKey?: (item: T, index: number) => string
+  /** Whether more items can be requested with `onLoadMore`. */
+  hasMore?: boolean
+  /** True while a further page is loading. */
+  loadingMore?: boolean
+  /**
+   * The last `onLoadMore` failed: it is not retried on its own, only when the user scrolls
+   * again or presses "Reintentar".
+   */
+  loadFailed?: boolean
+  /** Requests the next page; called when the end of the grid gets near the viewport. */
+  onLoadMore?: () => void
+  /** Minimum column width in px (matches `.grid`). */
+  minColumnWidth?: number
+  /** Gap between cells in px (matches `.grid`). */
+  gap?: number
+  /** Initial row height guess in px, replaced by the measured value. */
+  estimatedRowHeight?: number
+  /** Extra rows mounted above and below the viewport. */
+  overscanRows?: number
+  /** Distance in px from the end at which `onLoadMore` fires. */
+  loadAheadPx?: number
+  /** Extra class for the grid element (e.g. page-specific tweaks). */
+  className?: string
+}
+
+/**
+ * @component
+ * Window-scrolled grid: the container gets the full height of every row and only the
+ * visible slice is rendered, positioned at its offset. Row height is measured from the
+ * rendered slice, so cards with extra content (e.g. Favorites' remove button) just work.
+ */
+export default function MovieGrid<T>({
+  items,
+  renderItem = item => <MovieCard movie={item as any} />,
+  getKey = movieKey,
+  hasMore = false,
+  loadingMore = false,
+  loadFailed = false,
+  onLoadMore,
+  minColumnWidth = 160,
+  gap = 16,
+  estimatedRowHeight = 340,
+  overscanRows = 2,
+  loadAheadPx = 800,
+  className,
+}: MovieGridProps<T>) {
+  const location = useLocation()
+  const snapshot = useGridSnapshot()
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const windowRef = useRef<HTMLDivElement>(null)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const [columns, setColumns] = useState(1)
+  const [rowHeight, setRowHeight] = useState(snapshot?.rowHeight ?? estimatedRowHeight)
+  const [range, setRange] = useState({ start: 0, end: 0 })
+
+  const rowCount = Math.ceil(items.length / columns)
+
+  // Latest values for listeners registered once
+  const latest = useRef({ rowHeight, rowCount, items, hasMore, loadingMore, loadFailed, onLoadMore })
+  latest.current = { rowHeight, rowCount, items, hasMore, loadingMore, loadFailed, onLoadMore }
+
+  /** Recomputes which rows intersect the viewport (plus overscan). */
+  const updateRange = useCallback(() => {
+    const el = containerRef.current
+    if (!el) return
+    const { rowHeight, rowCount } = latest.current
+    const top = el.getBoundingClientRect().top
+    const first = Math.floor(-top / rowHeight) - overscanRows
+    const last = Math.ceil((window.innerHeight - top) / rowHeight) + overscanRows
+    const start = Math.max(0, Math.min(rowCount, first))
+    const end = Math.max(start, Math.min(rowCount, last))
+    setRange(r => (r.start === start && r.end === end ? r : { start, end }))
+  }, [overscanRows])
+
+  /**
+   * Asks for more items when the sentinel is within `loadAheadPx` of the viewport.
+   * @param byUser - Triggered by a scroll or resize (the only way to retry after a failure).
+   */
+  const maybeLoadMore = useCallback((byUser = false) => {
+    const s = sentinelRef.current
+    const { hasMore, loadingMore, loadFailed, onLoadMore } = latest.current
+    if (!s || !hasMore || loadingMore || !onLoadMore || (loadFailed && !byUser)) return
+    if (s.getBoundingClientRect().top - window.innerHeight <= loadAheadPx) onLoadMore()
+  }, [loadAheadPx])
+
+  // Column count follows the container width
+  useLayoutEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const measure = () => {
+      const cols = Math.max(1, Math.floor((el.clientWidth + gap) / (minColumnWidth + gap)))
+      setColumns(c => (c === cols ? c : cols))
+    }
+    measure()
+    const ro = new ResizeObserver(measure)
+    ro.observe(el)
+    return () => ro.disconnect()
+  }, [gap, minColumnWidth])
+
+  // Row height is the average of the rendered slice (cells in a row share its height)
+  useLayoutEffect(() => {
+    const el = windowRef.current
+    const rows = range.end - range.start
+    if (!el || rows <= 0) return
+    const measure = () => {
+      const h = (el.offsetHeight + gap) / rows
+      if (h > 0) setRowHeight(prev => (Math.abs(prev - h) < 1 ? prev : h))
+    }
+    measure()
+    const ro = new ResizeObserver(measure)
+    ro.observe(el)
+    return () => ro.disconnect()
+  }, [range, gap])
+
+  useLayoutEffect(updateRange, [updateRange, columns, rowHeight, rowCount])
+
+  // Scroll/resize: update the window, persist the snapshot and check for more
+  useEffect(() => {
+    let frame = 0
+    const onScroll = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        updateRange()
+        maybeLoadMore(true)
+        const { items, rowHeight } = latest.current
+        if (items.length) writeSnapshot(location.key, { scrollY: window.scrollY, count: items.length, rowHeight })
+      })
+    }
+    window.addEventListener('scroll', onScroll, { passive: true })
+    window.addEventListener('resize', onScroll)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', onScroll)
+      window.removeEventListener('resize', onScroll)
+    }
+  }, [location.key, updateRange, maybeLoadMore])
+
+  // A page that does not fill the viewport never scrolls: check after every change
+  useEffect(() => maybeLoadMore(), [maybeLoadMore, items.length, hasMore, loadingMore, loadFailed])
+
+  // Back navigation: scroll to the saved offset once enough items are back
+  const pendingRestore = useRef(snapshot?.scrollY ?? null)
+  useLayoutEffect(() => {
+    const y = pendingRestore.current
+    if (y == null || !items.length) return
+    if (items.length < (snapshot?.count ?? 0) && hasMore) return
+    pendingRestore.current = null
+    window.scrollTo(0, y)
+    updateRange()
+  }, [items.length, hasMore, snapshot, updateRange])
+
+  const visible = items.slice(range.start * columns, range.end * columns)
+  const totalHeight = Math.max(0, rowCount * rowHeight - gap)
+
+  return (
+    <>
+    <div className="movie-grid" ref={containerRef} style={{ height: totalHeight }}>
+      <div
+        ref={windowRef}
+        className={className ? `grid movie-grid__window ${className}` : 'grid movie-grid__window'}
+        style={{
+          top: range.start * rowHeight,
+          gap,
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        }}
+      >
+        {visible.map((item, i) => {
+          const index = range.start * columns + i
+          return <div key={getKey(item, index)} className="movie-grid__cell">{renderItem(item, index)}</div>
+        })}
+      </div>
+
+      <div ref={sentinelRef} className="movie-grid__sentinel" aria-hidden="true" />
+    </div>
+    {loadingMore ? (
+      <p className="movie-grid__status" role="status">Cargando más…</p>
+    ) : loadFailed && hasMore && onLoadMore && (
+      <p className="movie-grid__status" role="status">
+        No se pudieron cargar más películas.{' '}
+        <button type="button" className="btn" onClick={onLoadMore}>Reintentar</button>
+      </p>
+    )}
+    </>
+  )
+}
@@ -0,0 +1,54 @@
+/**
+ * @file MovieRow.tsx
+ * @summary Horizontal carousel of movie cards with a heading and scroll buttons.
+ */
+import { useId, useRef, type ReactNode } from 'react'
+import MovieCard from './MovieCard'
+import { movieKey } from './MovieGrid'
+import type { Movie } from '../../types'
+import './MovieRow.scss'
+
+type MovieRowProps = {
+  /** Visible heading of the row. */
+  title: string
+  items: Movie[]
+  /** Extra content for each card (see `MovieCard`'s `footer`). */
+  renderFooter?: (movie: Movie) => ReactNode
+}
+
+/**
+ * @component
+ * @returns A labelled region whose cards scroll sideways (touch, trackpad, keyboard or buttons).
+ */
+export default function MovieRow({ title, items, renderFooter }: MovieRowProps) {
+  const headingId = useId()
+  const listRef = useRef<HTMLUListElement>(null)
+
+  // Avanza casi una pantalla, dejando ver parte de la tarjeta anterior
+  function scrollBy(dir: 1 | -1) {
+    const list = listRef.current
+    if (!list) return
+    list.scrollBy({ left: dir * list.clientWidth * 0.9, behavior: 'smooth' })
+  }
+
+  if (!items.length) return null
+
+  return (
+    <section className="movie-row" aria-labelledby={headingId}>
+      <div className="movie-row__head">
+        <h2 id={headingId}>{title}</h2>
+        <div className="movie-row__nav">
+          <button type="button" className="movie-row__btn" onClick={() => scrollBy(-1)} aria-label={`Desplazar «${title}» a la izquierda`}>‹</button>
+          <button type="button" className="movie-row__btn" onClick={() => scrollBy(1)} aria-label={`Desplazar «${title}» a la derecha`}>›</button>
+        </div>
+      </div>
+      <ul ref={listRef} className="movie-row__list" role="list">
+        {items.map((m, i) => (
+          <li key={movieKey(m, i)} className="movie-row__item">
+            <MovieCard movie={m} footer={renderFooter?.(m)} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,39 @@
+/**
+ * @file OfflineBanner.tsx
+ * @summary Sticky notice shown while offline, while unsent changes wait in the outbox,
+ * or when some of them could not be saved.
+ */
+import { useOnlineStatus, useOutbox } from '../../hooks/useOnlineStatus'
+import { discardFailed, retryFailed } from '../../services/outbox'
+import './OfflineBanner.scss'
+
+const plural = (n: number, one: string, many: string) => (n === 1 ? `1 ${one}` : `${n} ${many}`)
+
+/**
+ * @component
+ * Polite live region: announced once when connectivity changes, not on every render.
+ */
+export default function OfflineBanner() {
+  const online = useOnlineStatus()
+  const outbox = useOutbox()
+  const pending = outbox.filter(e => e.status === 'pending').length
+  const failed = outbox.filter(e => e.status === 'failed').length
+
+  if (online && !pending && !failed) return null
+
+  const changes = plural(pending, 'cambio pendiente', 'cambios pendientes')
+  const state = failed ? 'is-failed' : online ? 'is-syncing' : ''
+  return (
+    <div className={`offline-banner ${state}`} role='status' aria-live='polite'>
+      {!online && `Sin conexión: mostrando contenido guardado.${pending ? ` ${changes} se enviarán al reconectar.` : ''}`}
+      {online && pending > 0 && `Sincronizando ${changes}…`}
+      {failed > 0 && (
+        <span className='offline-banner__failed'>
+          {` ${plural(failed, 'cambio no se pudo guardar', 'cambios no se pudieron guardar')}.`}
+          <button type='button' className='offline-banner__btn' onClick={() => void retryFailed()}>Reintentar</button>
+          <button type='button' className='offline-banner__btn' onClick={() => void discardFailed()}>Descartar</button>
+        </span>
+      )}
+    </div>
+  )
+}
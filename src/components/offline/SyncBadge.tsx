@@ -0,0 +1,23 @@
+/**
+ * @file SyncBadge.tsx
+ * @summary Small label telling the user a change of theirs has not reached the server yet.
+ */
+import type { OutboxEntry } from '../../services/outbox'
+import './SyncBadge.scss'
+
+/**
+ * @component
+ * @param entry - Unsent write from the outbox (`usePendingWrite`); renders nothing without one.
+ */
+export default function SyncBadge({ entry }: { entry?: OutboxEntry }) {
+  if (!entry) return null
+  const failed = entry.status === 'failed'
+  return (
+    <span
+      className={`sync-badge ${failed ? 'sync-badge--failed' : 'sync-badge--pending'}`}
+      title={failed ? entry.lastError : undefined}
+    >
+      {failed ? 'No se pudo sincronizar' : 'Pendiente de sincronizar'}
+    </span>
+  )
+}
@@ -0,0 +1,448 @@
+/**
+ * @file VideoPlayer.tsx
+ * @summary Reusable video player with custom accessible controls: play/pause, seek bar with
+ * time display, volume, speed, quality (sources and HLS renditions), subtitles, loop, PiP and
+ * fullscreen. Parents drive it through a ref ({@link VideoPlayerHandle}) and listen to
+ * `onProgress` / `onEnded` / `onError`.
+ */
+import { forwardRef, useEffect, useId, useImperativeHandle, useRef, useState } from 'react'
+import { useVideoSource } from '../../hooks/useVideoSource'
+import { useHotkeys } from '../../hooks/useHotkeys'
+import { getPlayerPrefs, pickSource, savePlayerPrefs, sortSources } from '../../utils/playerPrefs'
+import { formatClock } from '../../utils/time'
+import type { MovieSource, SubtitleTrack } from '../../types'
+import './VideoPlayer.scss'
+
+/** Speeds offered in the speed menu. */
+const RATES = [0.5, 0.75, 1, 1.25, 1.5, 2]
+/** Seconds skipped by the seek buttons and the J/L keys. */
+const SEEK_STEP = 10
+
+/**
+ * Imperative API exposed through the component ref.
+ */
+export type VideoPlayerHandle = {
+  play: () => Promise<void>
+  pause: () => void
+  togglePlay: () => void
+  /** Jumps to `time` (seconds). Before the metadata loads, the jump is applied once it does. */
+  seek: (time: number) => void
+  /** Moves `offset` seconds forward (or back when negative). */
+  seekBy: (offset: number) => void
+  toggleMute: () => void
+  /** Volume between 0 and 1. */
+  setVolume: (volume: number) => void
+  setRate: (rate: number) => void
+  togglePiP: () => Promise<void>
+  toggleFullscreen: () => Promise<void>
+  readonly currentTime: number
+  /** Length in seconds (`NaN` until the metadata loads). */
+  readonly duration: number
+  readonly paused: boolean
+}
+
+export type VideoPlayerProps = {
+  /** Available sources; sorted by quality and chosen with the remembered preference. */
+  sources: MovieSource[]
+  /** Subtitles used when the playing source has none of its own. */
+  subtitles?: SubtitleTrack[]
+  poster?: string
+  /** Title used in the accessible name of the player. */
+  title?: string
+  /** Enables the keyboard shortcuts (Space/K, J, L, ←/→, M, F, P) on the whole page. */
+  shortcuts?: boolean
+  /** Playback position, on every `timeupdate` (~4 times per second while playing). */
+  onProgress?: (time: number, duration: number) => void
+  onPlay?: () => void
+  onPause?: (time: number, duration: number) => void
+  onEnded?: (time: number, duration: number) => void
+  /** Playback failed (unsupported format, network, HLS…); `message` is ready to show. */
+  onError?: (message: string) => void
+}
+
+/** Pending jump and play state to restore once the (new) source has loaded its metadata. */
+type PendingSeek = { time: number; play: boolean }
+
+function mediaErrorMessage(err: MediaError | null) {
+  switch (err?.code) {
+    case MediaError.MEDIA_ERR_NETWORK: return 'Error de red al cargar el vídeo'
+    case MediaError.MEDIA_ERR_DECODE: return 'No se pudo decodificar el vídeo'
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: return 'Formato de vídeo no compatible'
+    default: return null // abortado por el usuario o sin detalle
+  }
+}
+
+/**
+ * @component
+ */
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(function VideoPlayer(
+  { sources, subtitles: fallbackSubtitles, poster, title, shortcuts = false, onProgress, onPlay, onPause, onEnded, onError },
+  ref
+) {
+  const uid = useId()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const pendingRef = useRef<PendingSeek | null>(null)
+
+  // Estado reflejado desde los eventos del <video>
+  const [playing, setPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(NaN)
+  const [buffering, setBuffering] = useState(false)
+  const [fullscreen, setFullscreen] = useState(false)
+  const [pip, setPip] = useState(false)
+
+  // Preferencias del usuario
+  const [muted, setMuted] = useState(false)
+  const [volume, setVolumeState] = useState(1)
+  const [rate, setRateState] = useState(1)
+  const [loop, setLoop] = useState(false)
+  const [quality, setQuality] = useState(() => getPlayerPrefs().quality)
+  // Grupo del selector de calidad elegido por última vez: renditions HLS o fuentes
+  const [qualityGroup, setQualityGroup] = useState<'level' | 'source'>('level')
+  const [subtitleLang, setSubtitleLang] = useState(() => getPlayerPrefs().subtitleLang ?? null)
+
+  /* -------- Fuente, HLS y subtítulos -------- */
+  const ordered = sortSources(sources)
+  const source = pickSource(ordered, quality)
+  const stream = useVideoSource(videoRef, source?.url, quality)
+  const subtitles = source?.subtitles ?? fallbackSubtitles ?? []
+  // Solo se activan subtítulos del idioma elegido que existan en esta fuente
+  const activeLang = subtitles.some(t => t.lang === subtitleLang) ? subtitleLang : null
+  const ready = !!source
+
+  function applySubtitles() {
+    const tracks = videoRef.current?.textTracks
+    if (!tracks) return
+    for (let i = 0; i < tracks.length; i++) {
+      tracks[i].mode = tracks[i].language === activeLang ? 'showing' : 'disabled'
+    }
+  }
+
+  useEffect(applySubtitles, [activeLang, source?.url, subtitles.length])
+
+  // Los callbacks del padre pueden cambiar en cada render: siempre se usa el último
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+  useEffect(() => {
+    if (stream.error) onErrorRef.current?.(stream.error)
+  }, [stream.error])
+
+  useEffect(() => {
+    const v = videoRef.current
+    if (!v) return
+    v.muted = muted
+    v.volume = volume
+    v.playbackRate = rate
+    v.loop = loop
+  }, [muted, volume, rate, loop])
+
+  // Pantalla completa sobre el contenedor, para conservar los controles propios
+  useEffect(() => {
+    const onChange = () => setFullscreen(!!rootRef.current && document.fullscreenElement === rootRef.current)
+    document.addEventListener('fullscreenchange', onChange)
+    return () => document.removeEventListener('fullscreenchange', onChange)
+  }, [])
+
+  // React no expone los eventos de PiP como props
+  useEffect(() => {
+    const v = videoRef.current
+    if (!v) return
+    const onEnter = () => setPip(true)
+    const onLeave = () => setPip(false)
+    v.addEventListener('enterpictureinpicture', onEnter)
+    v.addEventListener('leavepictureinpicture', onLeave)
+    return () => {
+      v.removeEventListener('enterpictureinpicture', onEnter)
+      v.removeEventListener('leavepictureinpicture', onLeave)
+    }
+  }, [])
+
+  /* -------- Acciones -------- */
+  function play() {
+    return videoRef.current?.play().catch(e => { if (e?.name !== 'AbortError') console.warn('play()', e) }) ?? Promise.resolve()
+  }
+
+  function togglePlay() {
+    const v = videoRef.current
+    if (!v || !ready) return
+    if (v.paused) play()
+    else v.pause()
+  }
+
+  function seek(time: number) {
+    const v = videoRef.current
+    if (!v) return
+    if (v.readyState < HTMLMediaElement.HAVE_METADATA) {
+      pendingRef.current = { time, play: pendingRef.current?.play ?? false }
+      return
+    }
+    const d = Number.isFinite(v.duration) ? v.duration : Infinity
+    v.currentTime = Math.max(0, Math.min(d, time))
+    setCurrentTime(v.currentTime)
+  }
+
+  function seekBy(offset: number) {
+    seek((videoRef.current?.currentTime ?? 0) + offset)
+  }
+
+  function setVolume(next: number) {
+    const vol = Math.max(0, Math.min(1, next))
+    setVolumeState(vol)
+    if (vol > 0) setMuted(false)
+  }
+
+  async function togglePiP() {
+    const v = videoRef.current
+    try {
+      if (document.pictureInPictureElement) await document.exitPictureInPicture()
+      else if (v && document.pictureInPictureEnabled) await v.requestPictureInPicture()
+    } catch (e) {
+      console.error('PiP error', e)
+    }
+  }
+
+  async function toggleFullscreen() {
+    const root = rootRef.current
+    if (!root) return
+    try {
+      if (document.fullscreenElement) await document.exitFullscreen()
+      else await root.requestFullscreen?.()
+    } catch (e) {
+      console.error('Fullscreen error', e)
+    }
+  }
+
+  /** `level:<n>` elige una calidad del manifiesto HLS; `source:<label>` cambia de fuente. */
+  function changeQuality(value: string) {
+    if (value.startsWith('level:')) {
+      const level = Number(value.slice(6))
+      stream.setLevel(level)
+      setQualityGroup('level')
+      savePlayerPrefs({ quality: stream.renditions.find(r => r.level === level)?.label ?? 'Auto' })
+      return
+    }
+    const label = value.slice(7)
+    const v = videoRef.current
+    if (v && label !== source?.label) pendingRef.current = { time: v.currentTime, play: !v.paused }
+    setQuality(label)
+    setQualityGroup('source')
+    savePlayerPrefs({ quality: label })
+  }
+
+  function changeSubtitles(lang: string) {
+    const next = lang || null
+    setSubtitleLang(next)
+    savePlayerPrefs({ subtitleLang: next })
+  }
+
+  useImperativeHandle(ref, () => ({
+    play,
+    pause: () => videoRef.current?.pause(),
+    togglePlay,
+    seek,
+    seekBy,
+    toggleMute: () => setMuted(m => !m),
+    setVolume,
+    setRate: setRateState,
+    togglePiP,
+    toggleFullscreen,
+    get currentTime() { return videoRef.current?.currentTime ?? 0 },
+    get duration() { return videoRef.current?.duration ?? NaN },
+    get paused() { return videoRef.current?.paused ?? true },
+  }))
+
+  /* -------- Atajos de teclado -------- */
+  useHotkeys([
+    {
+      keys: ['space', 'k'],
+      description: 'Reproducir / pausar',
+      scope: 'page',
+      // Espacio sobre un botón ya lo activa: no reproducir además
+      handler: e => (e.key === ' ' && (e.target as HTMLElement | null)?.tagName === 'BUTTON' ? false : togglePlay()),
+    },
+    { keys: 'j', description: `Retroceder ${SEEK_STEP} segundos`, scope: 'page', handler: () => seekBy(-SEEK_STEP) },
+    { keys: 'l', description: `Avanzar ${SEEK_STEP} segundos`, scope: 'page', handler: () => seekBy(SEEK_STEP) },
+    { keys: 'arrowleft', description: 'Retroceder 5 segundos', scope: 'page', handler: () => seekBy(-5) },
+    { keys: 'arrowright', description: 'Avanzar 5 segundos', scope: 'page', handler: () => seekBy(5) },
+    { keys: 'm', description: 'Silenciar / activar sonido', scope: 'page', handler: () => setMuted(m => !m) },
+    { keys: 'f', description: 'Pantalla completa', scope: 'page', handler: toggleFullscreen },
+    { keys: 'p', description: 'Imagen en imagen (PiP)', scope: 'page', handler: togglePiP },
+  ], { enabled: shortcuts && ready })
+
+  /* -------- Eventos del <video> -------- */
+  // Al cargar una fuente: posición pendiente, velocidad y subtítulos
+  function handleLoadedMetadata() {
+    const v = videoRef.current
+    if (!v) return
+    v.playbackRate = rate
+    setDuration(v.duration)
+    applySubtitles()
+    const pending = pendingRef.current
+    pendingRef.current = null
+    if (!pending) return
+    v.currentTime = pending.time
+    if (pending.play) play()
+  }
+
+  function handleTimeUpdate() {
+    const v = videoRef.current
+    if (!v) return
+    setCurrentTime(v.currentTime)
+    onProgress?.(v.currentTime, v.duration || 0)
+  }
+
+  function handleError() {
+    const msg = mediaErrorMessage(videoRef.current?.error ?? null)
+    if (msg) onError?.(msg)
+  }
+
+  const hasDuration = Number.isFinite(duration) && duration > 0
+  const timeText = hasDuration ? `${formatClock(currentTime)} / ${formatClock(duration)}` : formatClock(currentTime)
+  const autoLabel = stream.level < 0 ? stream.renditions.find(r => r.level === stream.playingLevel)?.label : undefined
+  const showQuality = ordered.length > 1 || stream.renditions.length > 1
+
+  return (
+    <div
+      ref={rootRef}
+      className={`video-player${fullscreen ? ' is-fullscreen' : ''}`}
+      role="region"
+      aria-label={title ? `Reproductor: ${title}` : 'Reproductor de vídeo'}
+    >
+      <div className="video-player__screen" aria-busy={buffering}>
+        <video
+          ref={videoRef}
+          poster={poster}
+          playsInline
+          crossOrigin={subtitles.length ? 'anonymous' : undefined}
+          onClick={togglePlay}
+          onLoadedMetadata={handleLoadedMetadata}
+          onDurationChange={() => setDuration(videoRef.current?.duration ?? NaN)}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => { setPlaying(true); onPlay?.() }}
+          onPause={() => {
+            setPlaying(false)
+            const v = videoRef.current
+            if (v) onPause?.(v.currentTime, v.duration || 0)
+          }}
+          onEnded={() => {
+            const v = videoRef.current
+            if (v) onEnded?.(v.currentTime, v.duration || 0)
+          }}
+          onVolumeChange={() => {
+            const v = videoRef.current
+            if (!v) return
+            setMuted(v.muted)
+            setVolumeState(v.volume)
+          }}
+          onWaiting={() => setBuffering(true)}
+          onPlaying={() => setBuffering(false)}
+          onCanPlay={() => setBuffering(false)}
+          onEmptied={() => { setBuffering(false); setCurrentTime(0); setDuration(NaN) }}
+          onError={handleError}
+        >
+          {subtitles.map(t => (
+            <track key={t.url} kind="subtitles" src={t.url} srcLang={t.lang} label={t.label} />
+          ))}
+        </video>
+        {buffering && <div className="video-player__buffering" role="status">Cargando…</div>}
+      </div>
+
+      <div className="video-player__seekbar">
+        <input
+          className="video-player__seek"
+          type="range"
+          min={0}
+          max={hasDuration ? duration : 0}
+          step={1}
+          value={Math.min(currentTime, hasDuration ? duration : 0)}
+          onChange={e => seek(Number(e.target.value))}
+          disabled={!ready || !hasDuration}
+          aria-label="Posición"
+          aria-valuetext={hasDuration ? `${formatClock(currentTime)} de ${formatClock(duration)}` : formatClock(currentTime)}
+        />
+        <span className="video-player__time" aria-hidden="true">{timeText}</span>
+      </div>
+
+      <div className="toolbar" role="toolbar" aria-label="Controles de reproducción">
+        <div className="group">
+          <button type="button" className="ctrl" onClick={togglePlay} aria-pressed={playing} disabled={!ready}>
+            {playing ? '⏸ Pausa' : '▶ Reproducir'}
+          </button>
+          <button type="button" className="ctrl" onClick={() => seekBy(-SEEK_STEP)} disabled={!ready} aria-label={`Retroceder ${SEEK_STEP} segundos`}>⏮ {SEEK_STEP}s</button>
+          <button type="button" className="ctrl" onClick={() => seekBy(SEEK_STEP)} disabled={!ready} aria-label={`Avanzar ${SEEK_STEP} segundos`}>{SEEK_STEP}s ⏭</button>
+        </div>
+
+        <div className="group volume">
+          <button type="button" className="ctrl" onClick={() => setMuted(m => !m)} aria-pressed={muted} disabled={!ready}>
+            {muted || volume === 0 ? '🔇 Mute' : '🔊 Volumen'}
+          </button>
+          <input
+            className="range"
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={muted ? 0 : volume}
+            onChange={e => setVolume(Number(e.target.value))}
+            disabled={!ready}
+            aria-label="Ajustar volumen"
+            aria-valuetext={`${Math.round((muted ? 0 : volume) * 100)} %`}
+          />
+        </div>
+
+        <div className="spacer" />
+
+        <div className="group rate">
+          <label htmlFor={`${uid}-rate`} style={{ opacity: 0.8 }}>Vel:</label>
+          <select id={`${uid}-rate`} value={rate} onChange={e => setRateState(Number(e.target.value))} disabled={!ready}>
+            {RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+          </select>
+        </div>
+
+        {showQuality && (
+          <div className="group quality">
+            <label htmlFor={`${uid}-quality`} style={{ opacity: 0.8 }}>Calidad:</label>
+            <select
+              id={`${uid}-quality`}
+              value={stream.renditions.length > 1 && qualityGroup === 'level' ? `level:${stream.level}` : `source:${source?.label}`}
+              onChange={e => changeQuality(e.target.value)}
+            >
+              {stream.renditions.length > 1 && (
+                <optgroup label="Adaptativa">
+                  <option value="level:-1">Auto{autoLabel ? ` (${autoLabel})` : ''}</option>
+                  {stream.renditions.map(r => <option key={r.level} value={`level:${r.level}`}>{r.label}</option>)}
+                </optgroup>
+              )}
+              {ordered.length > 1 && (
+                <optgroup label="Fuentes">
+                  {ordered.map(s => <option key={s.url} value={`source:${s.label}`}>{s.label}</option>)}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        )}
+
+        {!!subtitles.length && (
+          <div className="group subtitles">
+            <label htmlFor={`${uid}-subtitles`} style={{ opacity: 0.8 }}>Subtítulos:</label>
+            <select id={`${uid}-subtitles`} value={activeLang ?? ''} onChange={e => changeSubtitles(e.target.value)}>
+              <option value="">Desactivados</option>
+              {subtitles.map(t => <option key={t.url} value={t.lang}>{t.label}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="group">
+          <button type="button" className="ctrl" onClick={() => setLoop(l => !l)} aria-pressed={loop} disabled={!ready}>
+            {loop ? '🔁 Loop ON' : 'Loop OFF'}
+          </button>
+          <button type="button" className="ctrl" onClick={togglePiP} aria-pressed={pip} disabled={!ready}>🗔 PiP</button>
+          <button type="button" className="ctrl" onClick={toggleFullscreen} aria-pressed={fullscreen} disabled={!ready}>⛶ Full</button>
+        </div>
+      </div>
+    </div>
+  )
+})
+
+export default VideoPlayer
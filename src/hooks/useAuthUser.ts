@@ -0,0 +1,17 @@
+/**
+ * @file useAuthUser.ts
+ * @description React binding for the current user exposed by `services/authProvider.ts`.
+ */
+import { useSyncExternalStore } from 'react'
+import { authProvider, type AuthUser } from '../services/authProvider'
+
+const subscribe = (listener: () => void) => authProvider.subscribe(() => listener())
+const getSnapshot = () => authProvider.currentUser()
+
+/**
+ * Subscribes the component to auth changes from every backend.
+ * @returns The signed-in user, or `null` when nobody is logged in.
+ */
+export function useAuthUser(): AuthUser | null {
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,42 @@
+/**
+ * @file useCommands.ts
+ * @description React bindings for the command palette registry in `services/commands.ts`.
+ */
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { getCommands, registerCommands, subscribeCommands, type Command } from '../services/commands'
+
+/** Options for {@link useCommands}. */
+export type UseCommandsOptions = {
+  /** Set to false to remove the commands (e.g. while the data they act on is loading). */
+  enabled?: boolean
+}
+
+/**
+ * Offers commands in the palette while the component is mounted.
+ * `run` may change on every render; the registry is only updated when ids, titles,
+ * groups or keywords change.
+ * @param list - Commands to offer.
+ * @param options - See {@link UseCommandsOptions}.
+ */
+export function useCommands(list: Command[], { enabled = true }: UseCommandsOptions = {}) {
+  const latest = useRef(list)
+  latest.current = list
+
+  const signature = enabled ? JSON.stringify(list.map(c => [c.id, c.title, c.group, c.keywords])) : ''
+
+  useEffect(() => {
+    if (!signature) return
+    return registerCommands(latest.current.map((c, i) => ({
+      ...c,
+      run: () => latest.current[i]?.run(),
+    })))
+  }, [signature])
+}
+
+/**
+ * Subscribes the component to the registry.
+ * @returns Every command currently offered, page commands first.
+ */
+export function useRegisteredCommands(): Command[] {
+  return useSyncExternalStore(subscribeCommands, getCommands)
+}
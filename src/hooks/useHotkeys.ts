@@ -1,6 +1,44 @@
 /**
  * @file useHotkeys.ts
- * @description Placeholder hook for keyboard shortcut utilities.
+ * @description React bindings for the keyboard shortcut registry in `services/hotkeys.ts`.
  */
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { getActiveHotkeys, registerHotkeys, subscribeHotkeys, type ActiveHotkey, type Hotkey } from '../services/hotkeys'
 
-export {}
+/** Options for {@link useHotkeys}. */
+export type UseHotkeysOptions = {
+  /** Set to false to unregister the shortcuts (e.g. while a menu is closed). */
+  enabled?: boolean
+}
+
+/**
+ * Registers shortcuts while the component is mounted.
+ * Handlers may change on every render; the registry is only updated when the keys,
+ * scopes or descriptions change.
+ * @param hotkeys - Shortcuts to register.
+ * @param options - See {@link UseHotkeysOptions}.
+ */
+export function useHotkeys(hotkeys: Hotkey[], { enabled = true }: UseHotkeysOptions = {}) {
+  const latest = useRef(hotkeys)
+  latest.current = hotkeys
+
+  const signature = enabled
+    ? JSON.stringify(hotkeys.map(h => [h.keys, h.scope, h.description, h.allowInInputs, h.hidden]))
+    : ''
+
+  useEffect(() => {
+    if (!signature) return
+    return registerHotkeys(latest.current.map((h, i) => ({
+      ...h,
+      handler: (e: KeyboardEvent) => latest.current[i]?.handler(e),
+    })))
+  }, [signature])
+}
+
+/**
+ * Subscribes the component to the registry.
+ * @returns Shortcuts that can currently fire, as listed in the shortcuts overlay.
+ */
+export function useActiveHotkeys(): ActiveHotkey[] {
+  return useSyncExternalStore(subscribeHotkeys, getActiveHotkeys)
+}
@@ -0,0 +1,38 @@
+/**
+ * @file useOnlineStatus.ts
+ * @description React bindings for connectivity and the outbox of unsent writes.
+ */
+import { useSyncExternalStore } from 'react'
+import { getOutbox, subscribeOutbox, type OutboxEntry } from '../services/outbox'
+
+function subscribeOnline(listener: () => void) {
+  window.addEventListener('online', listener)
+  window.addEventListener('offline', listener)
+  return () => {
+    window.removeEventListener('online', listener)
+    window.removeEventListener('offline', listener)
+  }
+}
+
+/**
+ * @returns `false` while the browser reports no network.
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeOnline, () => navigator.onLine)
+}
+
+/**
+ * @returns Writes of the signed-in user not yet accepted by the server (pending or failed).
+ */
+export function useOutbox(): OutboxEntry[] {
+  return useSyncExternalStore(subscribeOutbox, getOutbox)
+}
+
+/**
+ * @param target - Outbox target (e.g. `favoriteTarget(id)`), or null to skip.
+ * @returns The latest unsent write for `target`, if any.
+ */
+export function usePendingWrite(target: string | null): OutboxEntry | undefined {
+  const entries = useOutbox()
+  return target ? entries.filter(e => e.target === target).pop() : undefined
+}
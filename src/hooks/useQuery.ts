@@ -0,0 +1,118 @@
+/**
+ * @file useQuery.ts
+ * @description React bindings for `services/queryCache.ts`: `useQuery` reads (and keeps fresh)
+ * a cached query, `useMutation` runs a write and invalidates the queries it affects.
+ */
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import {
+  fetchQuery,
+  getQueryState,
+  hashKey,
+  invalidateQueries,
+  subscribeQuery,
+  type QueryKey,
+  type QueryState,
+} from '../services/queryCache'
+
+/** Options for {@link useQuery}. */
+export type UseQueryOptions = {
+  /** Set to false to skip fetching (e.g. while a required id or session is missing). */
+  enabled?: boolean
+  /** How long data counts as fresh, in ms. */
+  staleTime?: number
+}
+
+/** What {@link useQuery} returns. */
+export type UseQueryResult<T> = QueryState<T> & {
+  /** First load: no data yet and a request is in flight. */
+  isLoading: boolean
+  /** Fetches again regardless of freshness. */
+  refetch: () => Promise<T>
+}
+
+/**
+ * Subscribes to the cached query for `key`, fetching it on mount and whenever it is stale.
+ * Cached data renders immediately while a background refresh runs.
+ * @param key - Query key (endpoint + params).
+ * @param fetcher - Loads the data; the latest function is always used.
+ * @param opts - Query options.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: () => Promise<T>, opts: UseQueryOptions = {}): UseQueryResult<T> {
+  const { enabled = true, staleTime } = opts
+  const hash = hashKey(key)
+
+  // Keep the latest key/fetcher without resubscribing on every render
+  const keyRef = useRef(key)
+  keyRef.current = key
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+  const run = useCallback(() => fetcherRef.current(), [])
+
+  const subscribe = useCallback((l: () => void) => subscribeQuery(keyRef.current, l), [hash]) // eslint-disable-line react-hooks/exhaustive-deps
+  const getSnapshot = useCallback(() => getQueryState<T>(keyRef.current), [hash]) // eslint-disable-line react-hooks/exhaustive-deps
+  const state = useSyncExternalStore(subscribe, getSnapshot)
+
+  useEffect(() => {
+    if (!enabled) return
+    fetchQuery(keyRef.current, run, { staleTime }).catch(() => { /* state holds the error */ })
+  }, [hash, enabled, staleTime, run])
+
+  const refetch = useCallback(() => fetchQuery(keyRef.current, run, { force: true }), [run])
+
+  return {
+    ...state,
+    isLoading: enabled && state.data === undefined && (state.status === 'loading' || state.status === 'idle'),
+    refetch,
+  }
+}
+
+/** Options for {@link useMutation}. */
+export type UseMutationOptions<TVars, TResult> = {
+  /** Query key prefixes to invalidate after success. */
+  invalidates?: QueryKey[]
+  onSuccess?: (result: TResult, vars: TVars) => void
+  onError?: (error: unknown, vars: TVars) => void
+}
+
+/**
+ * Wraps a write operation with pending/error state and cache invalidation.
+ * @param mutation - Performs the write.
+ * @param opts - Invalidation and callbacks.
+ * @returns `mutate` (errors go to `error`/`onError`) and `mutateAsync` (rejects).
+ */
+export function useMutation<TVars = void, TResult = unknown>(
+  mutation: (vars: TVars) => Promise<TResult>,
+  opts: UseMutationOptions<TVars, TResult> = {}
+) {
+  const [isPending, setPending] = useState(false)
+  const [error, setError] = useState<unknown>(null)
+  const latest = useRef({ mutation, opts })
+  latest.current = { mutation, opts }
+
+  const mutateAsync = useCallback(async (vars: TVars) => {
+    const { mutation, opts } = latest.current
+    setPending(true)
+    setError(null)
+    try {
+      const result = await mutation(vars)
+      opts.invalidates?.forEach(invalidateQueries)
+      opts.onSuccess?.(result, vars)
+      return result
+    } catch (e) {
+      setError(e)
+      opts.onError?.(e, vars)
+      throw e
+    } finally {
+      setPending(false)
+    }
+  }, [])
+
+  const mutate = useCallback(
+    (vars: TVars) => mutateAsync(vars).catch(() => undefined),
+    [mutateAsync]
+  )
+
+  const reset = useCallback(() => setError(null), [])
+
+  return { mutate, mutateAsync, isPending, error, reset }
+}
@@ -0,0 +1,14 @@
+/**
+ * @file useSession.ts
+ * @description React binding for the auth session store in `services/session.ts`.
+ */
+import { useSyncExternalStore } from 'react'
+import { getSession, subscribeSession, type Session } from '../services/session'
+
+/**
+ * Subscribes the component to the auth session.
+ * @returns Current session: `status`, token expiry and the cached `User`.
+ */
+export function useSession(): Session {
+  return useSyncExternalStore(subscribeSession, getSession)
+}
@@ -0,0 +1,138 @@
+/**
+ * @file useVideoSource.ts
+ * @description Attaches a stream to a `<video>`: progressive files and native HLS go straight
+ * to `src`; HLS manifests (`.m3u8`) elsewhere play through hls.js (Media Source Extensions)
+ * with adaptive bitrate and a list of renditions to choose from.
+ */
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import type Hls from 'hls.js'
+
+/** Reloads attempted after fatal network errors before giving up. */
+const MAX_NETWORK_RETRIES = 3
+
+/** One quality level of an HLS manifest. */
+export interface Rendition {
+  /** Index in `hls.levels`, used to select it. */
+  level: number
+  height: number
+  bitrate: number
+  /** `720p`, or the bitrate for audio-only / unlabelled levels. */
+  label: string
+}
+
+/** @returns true when `url` points to an HLS manifest. */
+export function isHlsUrl(url?: string) {
+  return !!url && /\.m3u8(?:[?#]|$)/i.test(url)
+}
+
+/** Safari (and iOS browsers) play HLS without Media Source Extensions. */
+function supportsNativeHls() {
+  return !!document.createElement('video').canPlayType('application/vnd.apple.mpegurl')
+}
+
+function renditionLabel(height: number, bitrate: number) {
+  return height ? `${height}p` : `${Math.round(bitrate / 1000)} kbps`
+}
+
+/**
+ * Plays `url` on the video element of `videoRef`. The element must not set `src` itself.
+ * @param videoRef - Ref of the `<video>`.
+ * @param url - Stream URL (file or `.m3u8`); nothing is loaded while undefined.
+ * @param preferred - Remembered quality label; the matching rendition is locked when the manifest loads.
+ * @returns Renditions (highest first, empty unless hls.js is used), the selected level
+ * (`-1` = automatic), the level being played, a setter and the fatal playback error, if any.
+ */
+export function useVideoSource(videoRef: RefObject<HTMLVideoElement>, url: string | undefined, preferred?: string) {
+  const hlsRef = useRef<Hls | null>(null)
+  const [renditions, setRenditions] = useState<Rendition[]>([])
+  const [level, setLevelState] = useState(-1)
+  const [playingLevel, setPlayingLevel] = useState(-1)
+  const [error, setError] = useState<string | null>(null)
+
+  // La preferencia solo se aplica al cargar una fuente nueva
+  const preferredRef = useRef(preferred)
+  preferredRef.current = preferred
+
+  useEffect(() => {
+    const video = videoRef.current
+    setRenditions([])
+    setLevelState(-1)
+    setPlayingLevel(-1)
+    setError(null)
+    if (!video || !url) return
+
+    if (!isHlsUrl(url) || supportsNativeHls()) {
+      video.src = url
+      return
+    }
+
+    let canceled = false
+    import('hls.js')
+      .then(({ default: HlsPlayer }) => {
+        if (canceled) return
+        if (!HlsPlayer.isSupported()) {
+          setError('Este navegador no puede reproducir este vídeo')
+          return
+        }
+        const hls = new HlsPlayer({ capLevelToPlayerSize: true })
+        hlsRef.current = hls
+
+        hls.on(HlsPlayer.Events.MANIFEST_PARSED, (_e, data) => {
+          const list = data.levels
+            .map((l, i) => ({ level: i, height: l.height, bitrate: l.bitrate, label: renditionLabel(l.height, l.bitrate) }))
+            .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate)
+          setRenditions(list)
+          const match = list.find(r => r.label === preferredRef.current)
+          if (match) {
+            hls.currentLevel = match.level
+            setLevelState(match.level)
+          }
+        })
+        hls.on(HlsPlayer.Events.LEVEL_SWITCHED, (_e, data) => setPlayingLevel(data.level))
+        // Errores fatales: red → reintenta la carga unas veces; media → intenta recuperar una vez
+        let networkRetries = 0
+        let recovered = false
+        hls.on(HlsPlayer.Events.ERROR, (_e, data) => {
+          if (!data.fatal) return
+          if (data.type === HlsPlayer.ErrorTypes.NETWORK_ERROR && networkRetries < MAX_NETWORK_RETRIES) {
+            networkRetries++
+            hls.startLoad()
+          } else if (data.type === HlsPlayer.ErrorTypes.MEDIA_ERROR && !recovered) {
+            recovered = true
+            hls.recoverMediaError()
+          } else {
+            console.error('HLS error', data)
+            setError('No se pudo reproducir el vídeo')
+            hls.destroy()
+            hlsRef.current = null
+          }
+        })
+
+        hls.loadSource(url)
+        hls.attachMedia(video)
+      })
+      .catch(e => {
+        console.error('hls.js load error', e)
+        if (!canceled) setError('No se pudo cargar el reproductor')
+      })
+
+    return () => {
+      canceled = true
+      hlsRef.current?.destroy()
+      hlsRef.current = null
+    }
+  }, [url, videoRef])
+
+  /**
+   * Locks a rendition, or returns to adaptive bitrate with `-1`.
+   * The switch is immediate and keeps the playback position.
+   */
+  function setLevel(next: number) {
+    const hls = hlsRef.current
+    if (!hls) return
+    hls.currentLevel = next
+    setLevelState(next)
+  }
+
+  return { renditions, level, playingLevel, setLevel, error }
+}
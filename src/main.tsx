@@ -8,6 +8,7 @@ import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.scss'
 import { AppThemeProvider } from './theme/AppThemeProvider'
+import { registerServiceWorker } from './utils/registerServiceWorker'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -16,3 +17,6 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     </AppThemeProvider>
   </React.StrictMode>
 )
+
+// Offline support (app shell, catalog, posters, favorites)
+registerServiceWorker()
@@ -19,9 +19,15 @@
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import './Account.scss'
-import { api } from '../../services/api'
+import { api, isSessionExpired } from '../../services/api'
 import { Auth } from '../../services/auth'
+import { parseUser, SchemaError } from '../../services/models'
+import type { User } from '../../types'
+import { authProvider } from '../../services/authProvider'
 import { useToast } from '../../components/toast/ToastProvider' // ✅ Toasts (éxito + error)
+import { useQuery } from '../../hooks/useQuery'
+import { useHotkeys } from '../../hooks/useHotkeys'
+import { setQueryData } from '../../services/queryCache'
 
 /* ===== TopLoader helpers (eventos globales) ===== */
 function loaderStart() {
@@ -57,16 +63,6 @@ function pickStr(...vals: Array<string | undefined | null>) {
   return ''
 }
 
-/**
- * Parses a value to finite number or returns `undefined`.
- * @param {unknown} v - Input value that might represent a number.
- * @returns {number|undefined} Finite number or `undefined` if invalid.
- */
-function toNum(v: unknown): number | undefined {
-  const n = Number(v)
-  return Number.isFinite(n) ? n : undefined
-}
-
 /**
  * Calculates age (in years) from an ISO date (YYYY-MM-DD or ISO full).
  * Gracefully returns `undefined` on invalid input.
@@ -92,12 +88,42 @@ function calcAgeFromBirthdate(dateISO?: string | null): number | undefined {
 const AGE_MIN = 13
 const AGE_MAX = 120
 
+/** Query-cache key for the signed-in user's profile. */
+const PROFILE_KEY = ['account', 'profile'] as const
+
+/**
+ * Loads the profile: the session user (`/auth/me`) completed with the DB profile (`/users/:id`).
+ * Both are validated by `services/models.ts`.
+ */
+async function loadProfile(): Promise<Profile> {
+  const { user } = await Auth.me()
+
+  let fromDb: User | null = null
+  try {
+    const raw: any = await api.get(`/users/${encodeURIComponent(user.id)}`)
+    fromDb = parseUser({ id: user.id, ...(raw && 'profile' in raw ? raw.profile : raw) }, 'profile')
+  } catch (err) {
+    // Missing profile is fine; a malformed one is worth a warning
+    if (err instanceof SchemaError) console.warn(err.message)
+  }
+
+  return {
+    id: user.id,
+    email: pickStr(fromDb?.email, user.email),
+    name: pickStr(fromDb?.name, user.name),
+    apellido: pickStr(fromDb?.apellido, user.apellido), // ✅ last name
+    // Age: DB first; else try to derive from birthdate if present.
+    age: fromDb?.age ?? user.age ?? calcAgeFromBirthdate(fromDb?.birthdate ?? user.birthdate),
+  }
+}
+
 /**
  * Account page component.
  * @component
  * @description
  * - Loads current user (`/auth/me`) and augments it with DB profile (`/users/:id`).
  * - Two main flows: profile edit/save and password change.
+ * - Offers "log out of all devices", which revokes every session server-side.
  * - Prevents accidental navigation with the beforeunload prompt if there are unsaved changes.
  */
 export default function Account() {
@@ -112,7 +138,13 @@ export default function Account() {
   const [confirmDelete, setConfirmDelete] = useState(false)
   const [saving, setSaving] = useState(false)
   const [saved, setSaved] = useState(false)
-  const [bootError, setBootError] = useState<string | null>(null) // 🔴 error de arranque (backend caído)
+  const profileQuery = useQuery(PROFILE_KEY, loadProfile)
+  const bootErr = profileQuery.error as any
+  // 🔴 error de arranque (backend caído); api.ts ya redirige a /login si la sesión expiró
+  const bootError = bootErr && !profileQuery.data && !isSessionExpired(bootErr)
+    ? bootErr?.response?.data?.message || bootErr?.message || 'No se pudo cargar tu perfil'
+    : null
+  const [logoutAllBusy, setLogoutAllBusy] = useState(false)
 
   const nameRef = useRef<HTMLInputElement>(null)
 
@@ -167,43 +199,8 @@ export default function Account() {
       (confirmBtnRef.current ?? modalRef.current)?.focus()
     }, 0)
 
-    // Focus trap + Escape
-    const focusableSel =
-      'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-    const onKey = (e: KeyboardEvent) => {
-      if (!modalRef.current) return
-      const nodes = Array.from(
-        modalRef.current.querySelectorAll<HTMLElement>(focusableSel)
-      ).filter(n => !n.hasAttribute('disabled') && n.getAttribute('aria-hidden') !== 'true')
-
-      if (e.key === 'Escape') {
-        e.preventDefault()
-        setConfirmDelete(false)
-        return
-      }
-      if (e.key !== 'Tab' || nodes.length === 0) return
-
-      const first = nodes[0]
-      const last = nodes[nodes.length - 1]
-      const active = document.activeElement as HTMLElement | null
-
-      if (e.shiftKey) {
-        if (active === first || !modalRef.current.contains(active)) {
-          e.preventDefault()
-          last.focus()
-        }
-      } else {
-        if (active === last || !modalRef.current.contains(active)) {
-          e.preventDefault()
-          first.focus()
-        }
-      }
-    }
-    document.addEventListener('keydown', onKey)
-
     return () => {
       clearTimeout(focusSoon)
-      document.removeEventListener('keydown', onKey)
       document.body.classList.remove('no-scroll')
       // Restaurar foco
       const tgt = deleteBtnRef.current ?? lastFocusedRef.current
@@ -211,56 +208,49 @@ export default function Account() {
     }
   }, [confirmDelete])
 
-  // Load profile (auth + DB profile). Tolerant to different shapes.
+  // Focus trap + Escape (capa "modal": pausa los demás atajos mientras está abierto)
+  function trapFocus(backwards: boolean) {
+    const modal = modalRef.current
+    if (!modal) return false
+    const nodes = Array.from(
+      modal.querySelectorAll<HTMLElement>('button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])')
+    ).filter(n => !n.hasAttribute('disabled') && n.getAttribute('aria-hidden') !== 'true')
+    if (nodes.length === 0) return false
+
+    const first = nodes[0]
+    const last = nodes[nodes.length - 1]
+    const active = document.activeElement as HTMLElement | null
+    const outside = !modal.contains(active)
+    if (backwards && (active === first || outside)) last.focus()
+    else if (!backwards && (active === last || outside)) first.focus()
+    else return false // tabulación normal dentro del modal
+  }
+
+  useHotkeys([
+    { keys: 'escape', description: 'Cancelar la eliminación de la cuenta', scope: 'modal', allowInInputs: true, handler: () => setConfirmDelete(false) },
+    { keys: 'tab', description: 'Siguiente control', scope: 'modal', allowInInputs: true, hidden: true, handler: () => trapFocus(false) },
+    { keys: 'shift+tab', description: 'Control anterior', scope: 'modal', allowInInputs: true, hidden: true, handler: () => trapFocus(true) },
+  ], { enabled: confirmDelete })
+
+  // Profile from the query cache; a background refresh does not overwrite a form being edited.
   useEffect(() => {
-    let mounted = true
-      ; (async () => {
-        loaderStart()
-        try {
-          setBootError(null) // limpiar error previo si reintenta
-          const me: any = await api.get('/auth/me')
-          const id = me?.user?.id ?? me?.id
-          const email = me?.user?.email ?? me?.email ?? ''
-
-          let fromDb: any = {}
-          try { fromDb = await api.get(`/users/${id}`) } catch { /* ignore if not found */ }
-
-          const pObj: any = (fromDb && 'profile' in fromDb) ? fromDb.profile : fromDb
-
-          // Age: DB first; else try to derive from birthdate if present.
-          const ageFromDb = toNum(pObj?.age ?? pObj?.edad)
-          const ageFromMeta = calcAgeFromBirthdate(
-            pObj?.birthdate ?? pObj?.birth_date ?? pObj?.dob ?? me?.user?.user_metadata?.birthdate
-          )
-
-          const p: Profile = {
-            id,
-            email: pickStr(pObj?.email, email),
-            name: pickStr(pObj?.name, me?.user?.user_metadata?.name),
-            apellido: pickStr(pObj?.apellido, me?.user?.user_metadata?.apellido), // ✅ last name
-            age: ageFromDb ?? ageFromMeta,
-          }
-
-          if (!mounted) return
-          setProfile(p)
-          setForm(p)
-        } catch (err: any) {
-          const msg = err?.response?.data?.message || err?.message || 'No se pudo cargar tu perfil'
-          if (mounted) {
-            setBootError(msg)
-            showErrorToast(msg)
-            setForm({ id: 'offline', name: '', apellido: '', age: undefined, email: '' })
-          }
-        } finally {
-          if (mounted) loaderStop()
-        }
-      })()
+    const p = profileQuery.data
+    if (!p || editing) return
+    setProfile(p)
+    setForm(p)
+  }, [profileQuery.data]) // eslint-disable-line react-hooks/exhaustive-deps
 
-    return () => {
-      mounted = false
-      loaderStop() // por si se desmonta en medio de la carga
-    }
-  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => {
+    if (!profileQuery.isFetching) return
+    loaderStart()
+    return loaderStop
+  }, [profileQuery.isFetching])
+
+  useEffect(() => {
+    if (!bootError) return
+    showErrorToast(bootError)
+    setForm(f => f ?? { id: 'offline', name: '', apellido: '', age: undefined, email: '' })
+  }, [bootError]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Handle deep-link actions (?mode=edit|delete)
   useEffect(() => {
@@ -386,11 +376,13 @@ export default function Account() {
         email: form.email,
       })
       setProfile(form)
+      setQueryData(PROFILE_KEY, form)
       setEditing(false)
       setSaved(true)
       success('Tu perfil se actualizó correctamente.') // ✅ Toast de éxito
       window.setTimeout(() => setSaved(false), 2500)
     } catch (err: any) {
+      if (isSessionExpired(err)) return
       const msg =
         err?.response?.data?.error?.message ||
         err?.response?.data?.message ||
@@ -423,6 +415,7 @@ export default function Account() {
       success('Contraseña actualizada.') //  Toast de éxito
       setTimeout(() => setPwdSaved(false), 2500)
     } catch (err: any) {
+      if (isSessionExpired(err)) return
       const msg =
         err?.response?.data?.error?.message ||
         err?.response?.data?.message ||
@@ -436,15 +429,36 @@ export default function Account() {
     }
   }
 
+  /**
+   * Revokes every session of the user (all devices), then returns to the login screen.
+   * If the backend cannot confirm the revocation the user stays logged in and sees the error.
+   */
+  async function handleLogoutAll() {
+    setLogoutAllBusy(true)
+    loaderStart()
+    try {
+      await authProvider.logoutAll()
+      success('Cerraste sesión en todos tus dispositivos.')
+      navigate('/login', { replace: true })
+    } catch (err: any) {
+      if (isSessionExpired(err)) return
+      showErrorToast(err?.message || 'No se pudieron cerrar las sesiones')
+    } finally {
+      setLogoutAllBusy(false)
+      loaderStop()
+    }
+  }
+
   /** Permanently deletes the account and clears local auth token. */
   async function handleDelete() {
     if (!profile) return
     loaderStart()
     try {
       await api.del(`/users/${profile.id}`)
-      localStorage.removeItem('token')
+      await authProvider.logout()
       navigate('/login', { replace: true })
     } catch (err: any) {
+      if (isSessionExpired(err)) return
       const msg = err?.response?.data?.message || err?.message || 'No se pudo eliminar'
       showErrorToast(msg) // 🔴
     } finally {
@@ -708,6 +722,16 @@ export default function Account() {
         {saved && <p role="status" className="muted" style={{ marginTop: '.5rem' }}>Datos guardados</p>}
         {pwdSaved && <p role="status" className="muted" style={{ marginTop: '.25rem' }}>Contraseña actualizada</p>}
 
+        <button
+          type='button'
+          className='btn ghost'
+          onClick={handleLogoutAll}
+          disabled={logoutAllBusy}
+          aria-busy={logoutAllBusy || undefined}
+        >
+          {logoutAllBusy ? 'Cerrando sesiones…' : 'Cerrar sesión en todos los dispositivos'}
+        </button>
+
         <button
           type='button'
           className='btn danger'
@@ -1,11 +1,11 @@
 /**
  * @file src/pages/auth-callback/AuthCallback.tsx
- * @summary Handles Supabase auth redirects by exchanging URL codes for sessions.
+ * @summary Handles Supabase auth redirects by validating the recovery link through the auth provider.
  */
 
 import { useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { supa } from '../../services/supa'
+import { authProvider } from '../../services/authProvider'
 
 /**
  * @component
@@ -17,9 +17,7 @@ export default function AuthCallback() {
     useEffect(() => {
         (async () => {
             try {
-                await supa.auth.exchangeCodeForSession(window.location.href)
-            } catch {
-                // no-op
+                await authProvider.verifyRecoveryLink(window.location.href)
             } finally {
                 // After processing the token, redirect to the password reset form
                 navigate('/reset-password', { replace: true })
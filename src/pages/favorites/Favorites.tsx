@@ -1,142 +1,78 @@
 /**
  * @file Favorites.tsx
  * @summary Lists the user's favorite movies and allows removing entries.
- * @remarks Normalizes heterogeneous favorite payloads so MovieCard receives a consistent shape.
  */
 import { useEffect, useRef, useState } from 'react'
 import MovieCard from '../../components/movie/MovieCard'
-import { Favorites as FavService, Favorite } from '../../services/favorites'
+import MovieGrid from '../../components/movie/MovieGrid'
+import { Favorites as FavService, favoriteKeys, favoriteTarget } from '../../services/favorites'
+import { Movies, movieKeys } from '../../services/movies'
+import { fetchQuery } from '../../services/queryCache'
+import { useQuery } from '../../hooks/useQuery'
+import { useOutbox } from '../../hooks/useOnlineStatus'
+import SyncBadge from '../../components/offline/SyncBadge'
 import '../home/Home.scss'
 import './Favorites.scss'
 import { useToast } from '../../components/toast/ToastProvider'
-
-type FavMovie = {
-  id: string
-  title: string
-  poster?: string
-  posterUrl?: string
-  year?: number | string
-  genres?: string[] | string
-  rating?: number
-  avgRating?: number
-  vote_average?: number
-  release_date?: string
-  release_year?: string | number
-}
+import { isSessionExpired } from '../../services/api'
+import type { Movie } from '../../types'
 
 /* ===== TopLoader helpers (eventos globales) ===== */
 function loaderStart() { window.dispatchEvent(new CustomEvent('top-loader', { detail: 'start' })) }
 function loaderStop() { window.dispatchEvent(new CustomEvent('top-loader', { detail: 'stop' })) }
 
-function guessPoster(m: any): string | undefined {
-  return (
-    m?.poster ||
-    m?.posterUrl ||
-    m?.poster_url ||
-    m?.image ||
-    m?.cover ||
-    m?.thumbnail ||
-    m?.images?.poster
-  )
-}
-
-function normRating(x: any): number {
-  let r = Number(x ?? 0)
-  if (Number.isNaN(r)) r = 0
-  if (r > 5) r = r / 2
-  return Math.max(0, Math.min(5, r))
-}
-
-/* Cache estable por id para evitar re-renders de MovieCard y el “flicker” de portadas */
-function buildMovieFromFav(f: FavMovie) {
-  const poster = guessPoster(f)
-  const rating = normRating((f as any).rating ?? (f as any).avgRating ?? (f as any).vote_average ?? 0)
-  const year =
-    (f as any).year ??
-    (f as any).release_year ??
-    (typeof (f as any).release_date === 'string' ? (f as any).release_date.slice(0, 4) : undefined)
-  const genres = Array.isArray((f as any).genres) ? (f as any).genres : ((f as any).genres ? [String((f as any).genres)] : [])
-  return {
-    id: f.id,
-    title: f.title || 'Sin título',
-    poster,
-    posterUrl: poster,
-    rating,
-    year,
-    genres,
-  } as any
+/**
+ * Loads the favorite movies. Run through the query cache, whose structural sharing keeps
+ * unchanged movies by reference across refetches — so posters do not flicker when the
+ * list is revalidated. Favorites sent without movie data are completed with `Movies.get`
+ * (shared with the movie page's cache); those that cannot be loaded are left out.
+ */
+async function loadFavorites(): Promise<Movie[]> {
+  const favorites = await FavService.list()
+  const movies = await Promise.all(favorites.map(f =>
+    f.movie ?? fetchQuery(movieKeys.detail(f.movieId), () => Movies.get(f.movieId)).catch(() => null)
+  ))
+  return movies.filter((m): m is Movie => m !== null)
 }
 
 export default function Favorites() {
-  const [items, setItems] = useState<FavMovie[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string>()
+  const favQuery = useQuery(favoriteKeys.list(), loadFavorites)
+  const [items, setItems] = useState<Movie[]>([])
+  const loading = favQuery.isLoading
+  const loadError = favQuery.error as any
+  const error = loadError && !favQuery.data && !isSessionExpired(loadError) // api.ts ya redirige a /login
+    ? loadError?.message || 'No se pudieron cargar tus favoritos'
+    : undefined
   const [removing, setRemoving] = useState<string | null>(null)
+  const outbox = useOutbox()
+  const pendingAdds = outbox.filter(e => e.kind === 'favorite:add' && e.status === 'pending').length
 
   /* Toast inline “deshacer” */
   const [toast, setToast] = useState<{ text: string; onUndo?: () => void } | null>(null)
 
   /* Timers / control */
   const undoTimer = useRef<number | null>(null)
-  const lastRemoved = useRef<{ item: FavMovie; index: number } | null>(null)
+  const lastRemoved = useRef<{ item: Movie; index: number } | null>(null)
   const pendingCommit = useRef<{ id: string; committed: boolean } | null>(null)
 
   const { error: showErrorToast } = useToast()
 
-  /* Cache estable para MovieCard props */
-  const movieCache = useRef<Map<string, any>>(new Map())
-
-  function favToMovieStable(f: FavMovie) {
-    const id = f.id
-    const cached = movieCache.current.get(id)
-    if (!cached) {
-      const built = buildMovieFromFav(f)
-      movieCache.current.set(id, built)
-      return built
-    }
-    // actualizar campos por si cambiaron, manteniendo la referencia
-    const upd = buildMovieFromFav(f)
-    Object.assign(cached, upd)
-    return cached
-  }
+  // Lista visible = datos de la caché, sin el elemento cuya eliminación aún se puede deshacer
+  useEffect(() => {
+    if (!favQuery.data) return
+    const hidden = pendingCommit.current && !pendingCommit.current.committed ? pendingCommit.current.id : null
+    setItems(hidden ? favQuery.data.filter(f => f.id !== hidden) : favQuery.data)
+  }, [favQuery.data])
 
-  function purgeFromCache(id: string) {
-    movieCache.current.delete(id)
-  }
+  useEffect(() => {
+    if (!favQuery.isFetching) return
+    loaderStart()
+    return loaderStop
+  }, [favQuery.isFetching])
 
   useEffect(() => {
-    let alive = true
-      ; (async () => {
-        loaderStart()
-        try {
-          const data = await FavService.list()
-          const arr = Array.isArray(data) ? data : (data as any)?.items ?? []
-          const mapped: FavMovie[] = arr.map((r: Favorite | any) => ({
-            id: String((r as any).id ?? (r as any).movie_id ?? (r as any).movieId),
-            title: (r as any).title ?? (r as any).name ?? '',
-            poster: guessPoster(r),
-            posterUrl: guessPoster(r),
-            rating: (r as any).rating,
-            avgRating: (r as any).avgRating ?? (r as any).avg_rating,
-            vote_average: (r as any).vote_average,
-            year: (r as any).year ?? (r as any).release_year,
-            release_date: (r as any).release_date,
-            genres: (r as any).genres ?? (r as any).genre ?? [],
-          }))
-          if (alive) setItems(mapped)
-        } catch (e: any) {
-          if (alive) {
-            const msg = e?.message || 'No se pudieron cargar tus favoritos'
-            setError(msg)
-            showErrorToast(msg)
-          }
-        } finally {
-          if (alive) setLoading(false)
-          loaderStop()
-        }
-      })()
-    return () => { alive = false }
-  }, [showErrorToast])
+    if (error) showErrorToast(error)
+  }, [error, showErrorToast])
 
   useEffect(() => {
     return () => { if (undoTimer.current) window.clearTimeout(undoTimer.current) }
@@ -151,7 +87,6 @@ export default function Favorites() {
       try {
         if (pendingCommit.current) pendingCommit.current.committed = true
         await FavService.remove(id)
-        purgeFromCache(id)  // limpieza del cache al confirmar
       } catch (e: any) {
         if (lastRemoved.current) {
           const { item, index } = lastRemoved.current
@@ -161,7 +96,7 @@ export default function Favorites() {
             return copy
           })
         }
-        showErrorToast(e?.message || 'No se pudo quitar de favoritos')
+        if (!isSessionExpired(e)) showErrorToast(e?.message || 'No se pudo quitar de favoritos')
       } finally {
         pendingCommit.current = null
         undoTimer.current = null
@@ -184,7 +119,6 @@ export default function Favorites() {
     try {
       pendingCommit.current!.committed = true
       await FavService.remove(id)
-      purgeFromCache(id)  // limpieza del cache al confirmar
     } catch (e: any) {
       if (lastRemoved.current) {
         const { item, index } = lastRemoved.current
@@ -218,19 +152,9 @@ export default function Favorites() {
     if (pendingCommit.current?.committed) {
       loaderStart()
       try {
-        const movieId =
-          item.id ?? (item as any).movie_id ?? (item as any).movieId
-        if (typeof (FavService as any).add === 'function') {
-          await (FavService as any).add(movieId)
-        } else if (typeof (FavService as any).create === 'function') {
-          await (FavService as any).create({
-            movieId,
-            title: item.title,
-            posterUrl: (item as any).posterUrl ?? (item as any).poster,
-          })
-        }
+        await FavService.add(item.id)
       } catch (e: any) {
-        showErrorToast(e?.message || 'No se pudo deshacer: reintenta')
+        if (!isSessionExpired(e)) showErrorToast(e?.message || 'No se pudo deshacer: reintenta')
       } finally {
         loaderStop()
       }
@@ -277,29 +201,38 @@ export default function Favorites() {
     <section className="home favorites-page">
       <h1 className="title" data-skip-target>Favoritos</h1>
 
+      {/* 🕓 Añadidos que siguen en la cola (services/outbox.ts): aún no hay datos de la película */}
+      {pendingAdds > 0 && (
+        <p className="muted" role="status">
+          {pendingAdds === 1
+            ? '1 película se añadirá a tus favoritos al sincronizar.'
+            : `${pendingAdds} películas se añadirán a tus favoritos al sincronizar.`}
+        </p>
+      )}
+
       {loading && <p style={{ opacity: .8 }}>Cargando…</p>}
       {error && <p style={{ color: 'salmon' }}>{error}</p>}
 
       {!loading && !error && (
         items.length > 0 ? (
-          <div className="grid">
-            {items.map(f => {
-              const movie = favToMovieStable(f)  // objeto estable por id
-              return (
-                <div className="favorite-item" key={f.id}>
-                  <MovieCard movie={movie as any} />
-                  <button
-                    className="btn danger fav-remove-btn"
-                    disabled={removing === f.id}
-                    onClick={() => remove(f.id)}
-                    aria-busy={removing === f.id || undefined}
-                  >
-                    {removing === f.id ? 'Quitando…' : 'Quitar de favoritos'}
-                  </button>
-                </div>
-              )
-            })}
-          </div>
+          <MovieGrid
+            items={items}
+            getKey={f => f.id}
+            renderItem={f => (
+              <div className="favorite-item">
+                <MovieCard movie={f} />
+                <SyncBadge entry={outbox.filter(e => e.target === favoriteTarget(f.id)).pop()} />
+                <button
+                  className="btn danger fav-remove-btn"
+                  disabled={removing === f.id}
+                  onClick={() => remove(f.id)}
+                  aria-busy={removing === f.id || undefined}
+                >
+                  {removing === f.id ? 'Quitando…' : 'Quitar de favoritos'}
+                </button>
+              </div>
+            )}
+          />
         ) : (
           <p style={{ opacity: .8 }}>
             Aún no tienes favoritos. Ve a una película y pulsa <strong>Añadir a favoritos</strong>.
@@ -2,7 +2,7 @@
 
 /**
  * @file ForgotPassword.tsx
- * @summary Password recovery page (request + reset) using Supabase Auth.
+ * @summary Password recovery page (request + reset) through the auth provider's recovery backend.
  * @module Pages/ForgotPassword
  * @description
  * This page covers two modes:
@@ -18,7 +18,7 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { useEffect, useRef, useState } from 'react';
 import './ForgotPassword.scss';
-import { supa } from '../../services/supa';
+import { authProvider } from '../../services/authProvider';
 
 /**
  * Base site URL used for Supabase redirect during the recovery flow.
@@ -74,17 +74,15 @@ export default function ForgotPassword() {
     } catch {}
   };
 
-  // Subscribe to Supabase auth state changes (in case session is created before this effect).
+  // Subscribe to recovery-backend auth changes (in case session is created before this effect).
+  // Only a recovery link counts: a leftover Supabase session must not open the reset form.
   useEffect(() => {
-    const { data: sub } = supa.auth.onAuthStateChange((event) => {
-      if (event === 'PASSWORD_RECOVERY' || event === 'SIGNED_IN') {
+    return authProvider.subscribe(({ event, source }) => {
+      if (source === 'supabase' && event === 'PASSWORD_RECOVERY') {
         setMode('reset');
         cleanUrl();
       }
     });
-    return () => {
-      sub.subscription.unsubscribe();
-    };
   }, []);
 
   // Detect tokens in query/hash and perform exchange if needed.
@@ -114,8 +112,8 @@ export default function ForgotPassword() {
         try {
           setLoading(true);
           setErr(null);
-          const { error } = await supa.auth.exchangeCodeForSession(href);
-          if (error) throw error;
+          const res = await authProvider.verifyRecoveryLink(href);
+          if (!res.ok) throw new Error(res.message);
           setMode('reset');
           cleanUrl();
         } catch (e: any) {
@@ -133,7 +131,7 @@ export default function ForgotPassword() {
   }, [err]);
 
   /**
-   * Sends a recovery email via Supabase.
+   * Sends a recovery email via the auth provider.
    * @param {React.FormEvent} e - Form submit event.
    * @returns {Promise<void>}
    */
@@ -145,8 +143,7 @@ export default function ForgotPassword() {
     try {
       // Use a dedicated reset route for a cleaner UX.
       const redirectTo = `${SITE_URL}/reset-password`;
-      const { error } = await supa.auth.resetPasswordForEmail(email, { redirectTo });
-      if (error) throw error;
+      await authProvider.requestPasswordReset(email, redirectTo);
       setMsg('Revisa tu correo. Te enviamos un enlace para restablecer tu contraseña.');
     } catch (e: any) {
       setErr(e?.message || 'No se pudo enviar el correo.');
@@ -156,7 +153,7 @@ export default function ForgotPassword() {
   }
 
   /**
-   * Confirms the new password with Supabase once the session/token is valid.
+   * Confirms the new password once the recovery session/token is valid.
    * @param {React.FormEvent} e - Form submit event.
    * @returns {Promise<void>}
    */
@@ -169,8 +166,7 @@ export default function ForgotPassword() {
       if (!passOk) throw new Error('La contraseña debe tener al menos 6 caracteres.');
       if (!same) throw new Error('Las contraseñas no coinciden.');
 
-      const { error } = await supa.auth.updateUser({ password: pass1 });
-      if (error) throw error;
+      await authProvider.updatePassword(pass1);
 
       setMsg('¡Contraseña actualizada! Ahora puedes iniciar sesión.');
       setTimeout(() => navigate('/login', { replace: true }), 1200);
@@ -1,6 +1,7 @@
 /**
  * @file Home.tsx
- * @description Landing grid that shows a subset of movies.
+ * @description Landing page: "Continuar viendo" and "Recomendado para ti" rows plus a grid over
+ * the catalog, loaded page by page while scrolling.
  * Accessibility notes:
  * - The visible heading is an <h2> for styling, but we expose it as a level-1
  *   heading to assistive tech via role="heading" aria-level={1}.
@@ -9,22 +10,25 @@
  * - Clear loading/error/empty states improve UX for everyone.
  */
 
-import { useEffect, useState } from 'react'
-import { api } from '../../services/api'      // reuse your existing API client
-import MovieCard from '../../components/movie/MovieCard'
+import { useEffect } from 'react'
+import { isSessionExpired } from '../../services/api'
+import { Movies, movieKeys } from '../../services/movies'
+import { getQueryState, setQueryData } from '../../services/queryCache'
+import { useMutation, useQuery } from '../../hooks/useQuery'
+import MovieGrid, { appendUnique, useGridSnapshot } from '../../components/movie/MovieGrid'
+import MovieRow from '../../components/movie/MovieRow'
+import { Progress, progressKeys } from '../../services/progress'
+import { Recommendations } from '../../services/recommendations'
+import { recommendationKeys } from '../../services/recommendationKeys'
+import { useSession } from '../../hooks/useSession'
+import { formatClock } from '../../utils/time'
 import './Home.scss'
 import { useToast } from '../../components/toast/ToastProvider' // 🔴 Toasts
-import { slugify } from '../../utils/slug' // 👈 clave estable por si falta id
-
-/** Minimal shape required by MovieCard */
-type Movie = {
-  _id?: string
-  id?: string | number
-  title: string
-  year?: number | string
-  poster_url?: string
-  genres?: string[]
-}
+import { mapNetError } from '../../utils/netError'
+import type { Movie } from '../../types'
+
+/** Titles requested per page of the landing grid. */
+const HOME_PAGE_SIZE = 24
 
 /* ===== TopLoader helpers (eventos globales) ===== */
 function loaderStart() {
@@ -34,50 +38,102 @@ function loaderStop() {
   window.dispatchEvent(new CustomEvent('top-loader', { detail: 'stop' }))
 }
 
+/** Pages loaded so far, accumulated under one cache entry so revisits render instantly. */
+type HomeFeed = { items: Movie[]; pages: number; total: number }
+
+const FEED_KEY = movieKeys.list({ pageSize: HOME_PAGE_SIZE })
+
+/**
+ * Loads the first `pages` pages in a single request.
+ * @param pages - Number of pages to load.
+ */
+async function loadFeed(pages: number): Promise<HomeFeed> {
+  const res = await Movies.list({ page: 1, pageSize: HOME_PAGE_SIZE * pages })
+  return { items: appendUnique([], res.items), pages, total: res.total }
+}
+
+/**
+ * Progress bar and remaining time shown under each "Continuar viendo" card.
+ * @param position - Seconds watched.
+ * @param duration - Length in seconds (0 when unknown).
+ */
+function WatchProgressBar({ position, duration }: { position: number; duration: number }) {
+  const pct = duration > 0 ? Math.min(100, (position / duration) * 100) : 0
+  return (
+    <>
+      {duration > 0 && (
+        <div className="watch-progress" role="progressbar" aria-label="Progreso" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(pct)}>
+          <span style={{ width: `${pct}%` }} />
+        </div>
+      )}
+      <p className="watch-progress__label">
+        {duration > 0 ? `Quedan ${formatClock(duration - position)}` : `Visto hasta ${formatClock(position)}`}
+      </p>
+    </>
+  )
+}
+
 /**
  * @component
- * @returns Landing grid showing a sample of movies plus loading/error states.
+ * @returns "Continuar viendo" and "Recomendado para ti" rows and virtualised landing grid with infinite scroll plus loading/error states.
  */
 export default function Home() {
-  // Basic page state
-  const [movies, setMovies] = useState<Movie[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  // Coming back from a movie: reload as many titles as were shown before
+  const snapshot = useGridSnapshot()
+  const snapshotPages = Math.ceil((snapshot?.count ?? 0) / HOME_PAGE_SIZE)
+
+  // Revalidation reloads as many pages as are cached, so the grid never shrinks under the user
+  const feed = useQuery(FEED_KEY, () =>
+    loadFeed(Math.max(1, snapshotPages, getQueryState<HomeFeed>(FEED_KEY).data?.pages ?? 0))
+  )
+  const movies = feed.data?.items ?? []
+  const hasMore = !!feed.data && movies.length < feed.data.total
+  const loading = feed.isLoading
+  const error = feed.error && !feed.data && !isSessionExpired(feed.error) ? mapNetError(feed.error) : null
 
   const { error: showErrorToast } = useToast() // 🔴 helper para toast roja
 
+  // ▶️ Películas empezadas, la última vista primero (se revalida en cada visita)
+  const continuing = useQuery(progressKeys.list(), () => Progress.continueWatching(), { staleTime: 0 })
+  const continuingItems = continuing.data ?? []
+  const progressOf = new Map(continuingItems.map(p => [p.movieId, p]))
+
+  // 💡 Recomendaciones calculadas en el cliente a partir de favoritos y calificaciones (solo con sesión)
+  const signedIn = useSession().status === 'authenticated'
+  const recommended = useQuery(recommendationKeys.forYou(), () => Recommendations.forYou(), { enabled: signedIn })
+  const recommendedItems = signedIn ? recommended.data ?? [] : []
+  const becauseOf = new Map(recommendedItems.map(r => [r.movie.id, r.because]))
+
+  // Top loader while the feed is (re)loading
   useEffect(() => {
-    let alive = true
-      ; (async () => {
-        try {
-          loaderStart()          // ⬅️ START loader
-          setLoading(true)
-          setError(null)
-
-          // Same endpoint used by /movies; if your API returns { data: [...] },
-          // we normalize below to keep a consistent array shape.
-          const res = await api.get<any>('/movies')
-
-          // Normalize possible response shapes (array vs { data: [...] })
-          const raw: Movie[] = Array.isArray(res) ? res : (res?.data ?? [])
-
-          // Ensure a stable key for MovieCard
-          const list = raw.map(m => ({ ...m, _id: m._id ?? (m.id ? String(m.id) : undefined) }))
-
-          if (alive) setMovies(list)
-        } catch (e: any) {
-          if (!alive) return
-          const msg = e?.response?.data?.message || e?.message || 'No se pudieron cargar las películas'
-          setError(msg)         // estado inline (A11Y)
-          showErrorToast(msg)   // 🔴 toast roja
-        } finally {
-          if (alive) setLoading(false)
-          loaderStop()          // ⬅️ STOP loader
-        }
-      })()
-
-    return () => { alive = false }
-  }, [showErrorToast])
+    if (!feed.isFetching) return
+    loaderStart()          // ⬅️ START loader
+    return loaderStop      // ⬅️ STOP loader
+  }, [feed.isFetching])
+
+  useEffect(() => {
+    if (error) showErrorToast(error)   // 🔴 toast roja
+  }, [error, showErrorToast])
+
+  /** Loads the next page and appends it to the cached feed. */
+  const more = useMutation(
+    async () => {
+      const next = (getQueryState<HomeFeed>(FEED_KEY).data?.pages ?? 1) + 1
+      const res = await Movies.list({ page: next, pageSize: HOME_PAGE_SIZE })
+      const items = res.items
+      setQueryData<HomeFeed>(FEED_KEY, prev => {
+        const all = appendUnique(prev?.items ?? [], items)
+        // An empty page means the total was optimistic: stop asking
+        return { items: all, pages: next, total: items.length ? res.total : all.length }
+      })
+    },
+    { onError: e => { if (!isSessionExpired(e)) showErrorToast(mapNetError(e)) } } // 🔴 la lista ya cargada se mantiene
+  )
+
+  // A failed page is retried when the user scrolls again or presses "Reintentar" (see MovieGrid)
+  function loadMore() {
+    if (!more.isPending) more.mutate()
+  }
 
   return (
     <section className='container home-page'>
@@ -88,6 +144,24 @@ export default function Home() {
        */}
       <h2 data-skip-target role="heading" aria-level={1}>Películas</h2>
 
+      <MovieRow
+        title="Continuar viendo"
+        items={continuingItems.map(p => p.movie)}
+        renderFooter={m => {
+          const p = progressOf.get(m.id)
+          return p && <WatchProgressBar position={p.position} duration={p.duration} />
+        }}
+      />
+
+      <MovieRow
+        title="Recomendado para ti"
+        items={recommendedItems.map(r => r.movie)}
+        renderFooter={m => {
+          const because = becauseOf.get(m.id)
+          return because && <p className="because-chip">Porque te gustó {because.title}</p>
+        }}
+      />
+
       {/* Loading skeletons for perceived performance while fetching */}
       {loading && (
         <div className='grid'>
@@ -102,21 +176,13 @@ export default function Home() {
 
       {/* Normal render once loaded and not errored */}
       {!loading && !error && (
-        <div className='grid'>
-          {movies.map((m, i) => {
-            const year =
-              (m as any).year ??
-              (typeof (m as any).release_date === 'string' ? (m as any).release_date.slice(0, 4) : '')
-            // 👇 key estable: usa _id/id/slug y si faltan, título+year+índice
-            const key =
-              (m as any)._id ??
-              (m as any).id ??
-              (m as any).slug ??
-              `${slugify(m.title)}-${year}-${i}`
-
-            return <MovieCard key={String(key)} movie={m as any} />
-          })}
-        </div>
+        <MovieGrid
+          items={movies}
+          hasMore={hasMore}
+          loadingMore={more.isPending}
+          loadFailed={!!more.error}
+          onLoadMore={loadMore}
+        />
       )}
     </section>
   )
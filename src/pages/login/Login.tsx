@@ -4,10 +4,10 @@
  * @description Persists the last used email in localStorage to speed up subsequent logins.
  */
 
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { useEffect, useRef, useState } from 'react'
 import './Login.scss'
-import { Auth } from '../../services/auth'
+import { authProvider } from '../../services/authProvider'
 import { useToast } from '../../components/toast/ToastProvider' // 👈 toast
 
 /**
@@ -34,6 +34,10 @@ function loaderStop() {
  */
 export default function Login() {
   const navigate = useNavigate()
+  const [params] = useSearchParams()
+  // Where to go after login (e.g. set by api.ts when a session expires). Only same-origin paths.
+  const nextParam = params.get('next') || ''
+  const next = nextParam.startsWith('/') && !nextParam.startsWith('//') ? nextParam : '/'
   const [email, setEmail] = useState(localStorage.getItem(EMAIL_KEY) || '')
   const [password, setPassword] = useState('')
   const [showPwd, setShowPwd] = useState(false)
@@ -68,7 +72,7 @@ export default function Login() {
    * Handles the submit flow:
    * - clears previous errors
    * - validates fields
-   * - calls Auth.login and redirects on success
+   * - calls authProvider.login and redirects on success (to `?next=` when present)
    * - focuses the error summary on failure
    * - 🔵 enciende/apaga TopLoader para visibilidad del estado
    * @param {React.FormEvent<HTMLFormElement>} e
@@ -81,9 +85,9 @@ export default function Login() {
     setLoading(true)
     loaderStart() // ⬅️ START loader
     try {
-      await Auth.login(email, password)
+      await authProvider.login(email, password)
       showSuccessToast('¡Has iniciado sesión con éxito!') // 🟢 toast
-      navigate('/', { replace: true })
+      navigate(next, { replace: true })
     } catch (err: any) {
       const msg = err?.message || 'Error al iniciar sesión'
       setError(msg)
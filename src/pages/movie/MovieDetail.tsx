@@ -1,27 +1,29 @@
 /**
  * @file MovieDetail.tsx
- * @description Movie detail screen with HTML5 video player, keyboard-accessible
- * controls, favorites toggle, and star rating integration.
+ * @description Movie detail screen: video player (components/player/VideoPlayer.tsx) with
+ * resume from the last position, favorites toggle, and star rating integration.
  */
 
 import { useParams, useNavigate, useLocation } from 'react-router-dom'
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import './MovieDetail.scss'
-import { api } from '../../services/api'
+import { isSessionExpired } from '../../services/api'
 import { getRandomPexelsVideo } from '../../services/pexelsServices'
-import { Favorites } from '../../services/favorites'
-import { getToken } from '../../services/auth'
+import { Favorites, favoriteKeys, favoriteTarget } from '../../services/favorites'
+import { Movies, movieKeys } from '../../services/movies'
+import { MIN_RESUME_SECONDS, Progress, progressKeys } from '../../services/progress'
+import { setQueryData } from '../../services/queryCache'
+import { useMutation, useQuery } from '../../hooks/useQuery'
+import { usePendingWrite } from '../../hooks/useOnlineStatus'
+import { useCommands } from '../../hooks/useCommands'
+import SyncBadge from '../../components/offline/SyncBadge'
+import { useSession } from '../../hooks/useSession'
 import { useToast } from '../../components/toast/ToastProvider'
 import StarRating from '../../pages/movie/StarRating'
-
-type Movie = {
-  id: string | number
-  title: string
-  description?: string
-  posterUrl?: string
-  streamUrl?: string
-  userRating?: number
-}
+import Reviews from './Reviews'
+import VideoPlayer, { type VideoPlayerHandle } from '../../components/player/VideoPlayer'
+import { formatClock } from '../../utils/time'
+import type { MovieSource } from '../../types'
 
 /* ---------- Helpers ---------- */
 function loaderStart() {
@@ -41,79 +43,65 @@ function formatYearES(d?: string | Date) {
   const date = typeof d === 'string' ? new Date(d) : d
   return Number.isNaN(date.getTime()) ? '' : String(date.getFullYear())
 }
-function formatDuration(mins?: number | string) {
-  const m = Number(mins)
-  if (!Number.isFinite(m) || m <= 0) return ''
+function formatDuration(m?: number) {
+  if (!m || m <= 0) return ''
   const h = Math.floor(m / 60)
   const r = m % 60
   return h > 0 ? `${h} h ${r} min` : `${r} min`
 }
-function pickText(m: any, keys: string[]) {
-  for (const k of keys) {
-    const v = m?.[k]
-    if (typeof v === 'string' && v.trim()) return v.trim()
-  }
-  return ''
-}
+
+/** Minimum time between two progress saves while playing (ms). */
+const PROGRESS_SAVE_MS = 15_000
 
 /* ---------- COMPONENTE PRINCIPAL ---------- */
 export default function MovieDetail() {
   const { id } = useParams()
   const navigate = useNavigate()
   const location = useLocation()
-  const playerRef = useRef<HTMLVideoElement>(null)
+  const playerRef = useRef<VideoPlayerHandle>(null)
   const { error: showErrorToast } = useToast()
 
+  const validId = !!id && id !== 'undefined'
+
+  // Película desde la caché compartida (revalida en segundo plano si está obsoleta)
+  const movieQuery = useQuery(movieKeys.detail(id ?? ''), () => Movies.get(id!), { enabled: validId })
+  const movie = movieQuery.data ?? null
+  const loading = movieQuery.isLoading
+  const loadError = movieQuery.error as any
+  const error = !validId
+    ? 'ID de película inválido'
+    : loadError && !movie && !isSessionExpired(loadError) // api.ts ya redirige a /login
+      ? loadError?.response?.data?.message || loadError?.message || 'No se pudo cargar la película'
+      : undefined
+
   // Estados
-  const [movie, setMovie] = useState<Movie | null>(null)
   const [pexelsVideoUrl, setPexelsVideoUrl] = useState<string | null>(null)
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string>()
   const [added, setAdded] = useState(false)
   const [addedMsg, setAddedMsg] = useState('')
-  const [isFav, setIsFav] = useState<boolean | null>(null)
-  const [favBusy, setFavBusy] = useState(false)
 
-  // Controles del reproductor
-  const [playing, setPlaying] = useState(false)
-  const [muted, setMuted] = useState(false)
-  const [volume, setVolume] = useState(1)
-  const [rate, setRate] = useState(1)
-  const [loop, setLoop] = useState(false)
+  // Progreso: oferta de "Continuar desde…" hasta que empieza la reproducción
+  const [resumeDismissed, setResumeDismissed] = useState(false)
+  const lastSavedRef = useRef(0)
+  // Última posición informada por el reproductor (segundos)
+  const positionRef = useRef({ time: 0, duration: 0 })
 
   // Sinopsis expandible
   const [synopsisExpanded, setSynopsisExpanded] = useState(false)
 
-  /* -------- VALIDAR ID -------- */
+  /* -------- CARGA: loader + toast de error -------- */
   useEffect(() => {
-    if (!id || id === 'undefined') setError('ID de película inválido')
-  }, [id])
+    if (!movieQuery.isFetching) return
+    loaderStart()
+    return loaderStop
+  }, [movieQuery.isFetching])
 
-  /* -------- CARGAR PELÍCULA -------- */
   useEffect(() => {
-    if (!id || id === 'undefined') return
-      ; (async () => {
-        loaderStart()
-        setLoading(true)
-        setError(undefined)
-        try {
-          const resp = await api.get<Movie | { movie: Movie }>(`/movies/${encodeURIComponent(id)}`)
-          const m = (resp as any)?.movie ?? resp
-          setMovie(m as Movie)
-        } catch (e: any) {
-          const msg = e?.response?.data?.message || e?.message || 'No se pudo cargar la película'
-          setError(msg)
-          showErrorToast(msg)
-        } finally {
-          setLoading(false)
-          loaderStop()
-        }
-      })()
-  }, [id, showErrorToast])
+    if (validId && error) showErrorToast(error)
+  }, [validId, error, showErrorToast])
 
   /* -------- FALLBACK DE VIDEO PEXELS -------- */
   useEffect(() => {
-    if (!movie?.title || (movie as any).streamUrl) return
+    if (!movie?.title || movie.streamUrl || movie.sources?.length) return
     let canceled = false
       ; (async () => {
         loaderStart()
@@ -125,162 +113,150 @@ export default function MovieDetail() {
     return () => {
       canceled = true
     }
-  }, [movie?.title, (movie as any)?.streamUrl])
-
-  /* -------- CONTROLADORES DE VIDEO -------- */
-  useEffect(() => {
-    const v = playerRef.current
-    if (!v) return
-    const onPlay = () => setPlaying(true)
-    const onPause = () => setPlaying(false)
-    v.addEventListener('play', onPlay)
-    v.addEventListener('pause', onPause)
-    return () => {
-      v.removeEventListener('play', onPlay)
-      v.removeEventListener('pause', onPause)
-    }
-  }, [])
-
-  useEffect(() => {
-    const v = playerRef.current
-    if (!v) return
-    v.muted = muted
-    v.volume = volume
-    v.playbackRate = rate
-    v.loop = loop
-  }, [muted, volume, rate, loop])
-
-  /* -------- FAVORITOS -------- */
-  useEffect(() => {
-    const movieId = String((movie?.id ?? id) ?? '')
-    if (!movieId) return setIsFav(false)
-    if (!getToken()) return setIsFav(false)
+  }, [movie?.title, movie?.streamUrl, movie?.sources?.length])
+
+  /* -------- FUENTES -------- */
+  // Solo en desarrollo: ?stream=/fixtures/hls/master.m3u8 prueba el reproductor con otra fuente
+  const devStream = import.meta.env.DEV ? new URLSearchParams(location.search).get('stream') : null
+  const sources: MovieSource[] = useMemo(() => {
+    if (devStream) return [{ label: 'Auto', url: devStream }]
+    if (movie?.sources?.length) return movie.sources
+    const url = movie?.streamUrl || pexelsVideoUrl
+    return url ? [{ label: 'Auto', url }] : []
+  }, [devStream, movie?.sources, movie?.streamUrl, pexelsVideoUrl])
+
+  /* -------- PROGRESO (services/progress.ts) -------- */
+  const progressQuery = useQuery(progressKeys.detail(id ?? ''), () => Progress.get(id!), { enabled: validId, staleTime: 0 })
+  const progress = progressQuery.data ?? null
+  const resumeAt = progress && !progress.watched && progress.position >= MIN_RESUME_SECONDS && !resumeDismissed
+    ? progress.position
+    : null
+  // El vídeo de Pexels es de relleno: su posición no dice nada de la película
+  const tracksProgress = !!(devStream || movie?.streamUrl || movie?.sources?.length)
+
+  function saveProgress() {
+    const { time, duration } = positionRef.current
+    if (!movie || !tracksProgress || !time) return
+    lastSavedRef.current = Date.now()
+    Progress.save(movie, time, duration)
+      .then(entry => setQueryData(progressKeys.detail(entry.movieId), entry))
+      .catch(() => {})
+  }
 
-    let alive = true
-      ; (async () => {
-        try {
-          const exists = await Favorites.has(movieId)
-          if (alive) setIsFav(!!exists)
-        } catch {
-          if (alive) setIsFav(false)
-        }
-      })()
-    return () => {
-      alive = false
-    }
-  }, [movie, id])
+  function onPlayerProgress(time: number, duration: number) {
+    positionRef.current = { time, duration }
+    if (Date.now() - lastSavedRef.current >= PROGRESS_SAVE_MS) saveProgress()
+  }
 
-  async function toggleFav() {
-    const movieId = String((movie?.id ?? id) ?? '')
-    if (!movieId || favBusy || isFav === null) return
-    if (!getToken()) {
-      navigate(`/login?next=${encodeURIComponent(location.pathname + location.search)}`)
-      return
-    }
-    setFavBusy(true)
-    try {
-      if (isFav) {
-        await Favorites.remove(movieId)
-        setIsFav(false)
-        setAddedMsg('Quitada de favoritos')
-      } else {
-        await Favorites.add(movieId)
-        setIsFav(true)
-        setAddedMsg('Añadida a favoritos')
-      }
-      setAdded(true)
-      setTimeout(() => setAdded(false), 2200)
-    } catch (e: any) {
-      const msg =
-        e?.response?.data?.error?.message ||
-        e?.response?.data?.message ||
-        e?.message ||
-        'No se pudo actualizar tus favoritos'
-      showErrorToast(msg)
-    } finally {
-      setFavBusy(false)
-    }
+  function onPlayerStop(time: number, duration: number) {
+    positionRef.current = { time, duration }
+    saveProgress()
   }
 
-  /* -------- SHORTCUTS DE TECLADO -------- */
+  // Guarda también al ocultar la pestaña, cerrar la página o pasar a otra película
+  const saveProgressRef = useRef(saveProgress)
+  saveProgressRef.current = saveProgress
   useEffect(() => {
-    const isEditable = (el: EventTarget | null) => {
-      const n = el as HTMLElement | null
-      if (!n) return false
-      const tag = (n.tagName || '').toLowerCase()
-      const editable = (n.getAttribute?.('contenteditable') || '').toLowerCase()
-      return tag === 'input' || tag === 'textarea' || editable === 'true'
-    }
-
-    function onKey(e: KeyboardEvent) {
-      if (e.altKey || e.ctrlKey || e.metaKey || isEditable(e.target)) return
-      const key = e.key.toLowerCase()
-      if (e.key === ' ' || key === 'k') {
-        e.preventDefault()
-        togglePlay()
-      } else if (key === 'j') seek(-10)
-      else if (key === 'l') seek(10)
-      else if (key === 'm') setMuted(m => !m)
-      else if (key === 'f') toggleFullscreen()
-      else if (key === 'p') togglePiP()
+    const onVisibility = () => { if (document.visibilityState === 'hidden') saveProgressRef.current() }
+    const onPageHide = () => saveProgressRef.current()
+    document.addEventListener('visibilitychange', onVisibility)
+    window.addEventListener('pagehide', onPageHide)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility)
+      window.removeEventListener('pagehide', onPageHide)
     }
-    window.addEventListener('keydown', onKey)
-    return () => window.removeEventListener('keydown', onKey)
   }, [])
 
-  function togglePlay() {
-    const v = playerRef.current
-    if (!v) return
-    v.paused ? v.play() : v.pause()
+  useEffect(() => {
+    setResumeDismissed(false)
+    positionRef.current = { time: 0, duration: 0 }
+    return saveProgressRef.current // guardado de esta película (su closure conserva `movie`)
+  }, [movie?.id])
+
+  function resumePlayback() {
+    if (resumeAt === null) return
+    setResumeDismissed(true)
+    playerRef.current?.seek(resumeAt)
+    playerRef.current?.play()
   }
 
-  function seek(offset: number) {
-    const v = playerRef.current
-    if (!v) return
-    const d = v.duration || Infinity
-    v.currentTime = Math.max(0, Math.min(d, v.currentTime + offset))
+  function restartPlayback() {
+    setResumeDismissed(true)
+    playerRef.current?.seek(0)
+    playerRef.current?.play()
   }
 
-  async function togglePiP() {
-    const v = playerRef.current as any
-    try {
-      if ('pictureInPictureElement' in document && (document as any).pictureInPictureElement) {
-        await (document as any).exitPictureInPicture()
-      } else if (v?.requestPictureInPicture) {
-        await v.requestPictureInPicture()
-      }
-    } catch (e) {
-      console.error('PiP error', e)
+  /* -------- FAVORITOS -------- */
+  const favMovieId = String((movie?.id ?? id) ?? '')
+  const signedIn = useSession().status === 'authenticated'
+  const favQuery = useQuery(favoriteKeys.has(favMovieId), () => Favorites.has(favMovieId).catch(() => false), {
+    enabled: !!favMovieId && signedIn,
+  })
+  const isFav: boolean | null = !favMovieId || !signedIn ? false : favQuery.data ?? null
+  const favSync = usePendingWrite(favMovieId ? favoriteTarget(favMovieId) : null)
+
+  // add/remove invalidan la lista y los `has` en la caché (services/favorites.ts)
+  const favMutation = useMutation(
+    async (next: boolean) => {
+      const { queued } = next ? await Favorites.add(favMovieId) : await Favorites.remove(favMovieId)
+      return { next, queued }
+    },
+    {
+      onSuccess: ({ next, queued }) => {
+        setQueryData(favoriteKeys.has(favMovieId), next)
+        // 🕓 Sin red o servidor caído: el cambio queda en la cola (services/outbox.ts)
+        setAddedMsg(queued
+          ? 'Guardado en este dispositivo: se sincronizará en cuanto sea posible'
+          : next ? 'Añadida a favoritos' : 'Quitada de favoritos')
+        setAdded(true)
+        setTimeout(() => setAdded(false), 2200)
+      },
+      onError: (e: any) => {
+        if (isSessionExpired(e)) return
+        const msg =
+          e?.response?.data?.error?.message ||
+          e?.response?.data?.message ||
+          e?.message ||
+          'No se pudo actualizar tus favoritos'
+        showErrorToast(msg)
+      },
     }
-  }
+  )
+  const favBusy = favMutation.isPending
 
-  async function toggleFullscreen() {
-    const v = playerRef.current
-    if (!v) return
-    try {
-      if (document.fullscreenElement) await document.exitFullscreen()
-      else await v.requestFullscreen?.()
-    } catch (e) {
-      console.error('Fullscreen error', e)
+  function toggleFav() {
+    if (!favMovieId || favBusy || isFav === null) return
+    if (!signedIn) {
+      navigate(`/login?next=${encodeURIComponent(location.pathname + location.search)}`)
+      return
     }
+    favMutation.mutate(!isFav)
   }
 
+  /* -------- PALETA DE COMANDOS (Ctrl/⌘+K) -------- */
+  useCommands([
+    {
+      id: 'movie:favorite',
+      title: isFav ? 'Quitar de favoritos' : 'Añadir a favoritos',
+      group: 'Esta película',
+      keywords: ['favorito', 'favorite', 'guardar'],
+      run: toggleFav,
+    },
+  ], { enabled: !!movie && signedIn && isFav !== null })
+  useCommands([
+    { id: 'movie:restart', title: 'Reproducir desde el principio', group: 'Esta película', keywords: ['play', 'ver'], run: restartPlayback },
+  ], { enabled: !!movie })
+
   /* -------- RENDER -------- */
   if (loading) return <section className="container"><p aria-busy="true">Cargando…</p></section>
   if (error) return <section className="container"><p role="alert" style={{ color: 'salmon' }}>{error}</p></section>
   if (!movie) return null
 
-  const videoSrc = (movie as any).streamUrl || pexelsVideoUrl || undefined
-  const rawRelease = (movie as any)?.release_date ?? (movie as any)?.releaseDate
-  const yearField = (movie as any)?.year
-  const year = formatYearES(rawRelease) || (yearField ? String(yearField) : '')
-  const estreno = formatDateES(rawRelease) || (year ? year : '')
-  const duracion = formatDuration((movie as any)?.runtime ?? (movie as any)?.duration)
-  const genres = Array.isArray((movie as any)?.genres)
-    ? ((movie as any).genres as any[]).map(g => (typeof g === 'string' ? g : g?.name)).filter(Boolean)
-    : []
-  const rawSynopsis =
-    pickText(movie, ['description', 'overview', 'synopsis', 'plot', 'summary']) || (movie as any)?.description || ''
+  const year = formatYearES(movie.releaseDate) || (movie.year ? String(movie.year) : '')
+  const estreno = formatDateES(movie.releaseDate) || year
+  const duracion = formatDuration(movie.durationMin)
+  const genres = movie.genres
+  const rawSynopsis = movie.description ?? ''
   const hasSynopsis = !!rawSynopsis
   const maxChars = 280
   const shortText = hasSynopsis && rawSynopsis.length > maxChars ? rawSynopsis.slice(0, maxChars) + '…' : rawSynopsis
@@ -290,82 +266,49 @@ export default function MovieDetail() {
       <h1 className="detail-title">{movie.title}</h1>
 
       {/* ⭐ Calificación del usuario */}
-      <StarRating movieId={String(movie.id)} initialRating={movie.userRating ?? 0} />
+      <StarRating movieId={movie.id} initialRating={movie.userRating ?? 0} />
 
-      <div className={`player ${!videoSrc ? 'is-loading' : ''}`}>
-        <video
+      <div className={`player ${!sources.length ? 'is-loading' : ''}`}>
+        <VideoPlayer
           ref={playerRef}
-          id="player"
-          controls
-          poster={(movie as any).posterUrl}
-          src={videoSrc}
-          style={{ width: '100%', maxWidth: 980, borderRadius: 8 }}
+          sources={sources}
+          subtitles={movie.subtitles}
+          poster={movie.posterUrl}
+          title={movie.title}
+          shortcuts
+          onProgress={onPlayerProgress}
+          onPlay={() => setResumeDismissed(true)}
+          onPause={onPlayerStop}
+          onEnded={onPlayerStop}
+          onError={showErrorToast}
         />
 
-        <div className="toolbar" aria-label="Controles de reproducción">
-          <div className="group">
-            <button type="button" className="ctrl" onClick={togglePlay} aria-pressed={playing} disabled={!videoSrc}>
-              {playing ? '⏸ Pausa' : '▶ Reproducir'}
-            </button>
-            <button type="button" className="ctrl" onClick={() => seek(-10)} disabled={!videoSrc}>⏮ 10s</button>
-            <button type="button" className="ctrl" onClick={() => seek(10)} disabled={!videoSrc}>10s ⏭</button>
-          </div>
-
-          <div className="group volume">
-            <button type="button" className="ctrl" onClick={() => setMuted(m => !m)} aria-pressed={muted} disabled={!videoSrc}>
-              {muted || volume === 0 ? '🔇 Mute' : '🔊 Volumen'}
-            </button>
-            <input
-              className="range"
-              type="range"
-              min={0}
-              max={1}
-              step={0.01}
-              value={volume}
-              onChange={e => setVolume(Number(e.target.value))}
-              disabled={!videoSrc}
-              aria-label="Ajustar volumen"
-            />
-          </div>
-
-          <div className="spacer" />
-
-          <div className="group rate">
-            <span style={{ opacity: 0.8 }}>Vel:</span>
-            <select value={rate} onChange={e => setRate(Number(e.target.value))} disabled={!videoSrc}>
-              <option value={0.5}>0.5×</option>
-              <option value={0.75}>0.75×</option>
-              <option value={1}>1×</option>
-              <option value={1.25}>1.25×</option>
-              <option value={1.5}>1.5×</option>
-              <option value={2}>2×</option>
-            </select>
-          </div>
-
-          <div className="group">
-            <button type="button" className="ctrl" onClick={() => setLoop(l => !l)} aria-pressed={loop} disabled={!videoSrc}>
-              {loop ? '🔁 Loop ON' : 'Loop OFF'}
+        {resumeAt !== null && !!sources.length && (
+          <div className="resume-offer" role="group" aria-label="Reanudar reproducción">
+            <button type="button" className="btn primary" onClick={resumePlayback}>
+              ▶ Continuar desde {formatClock(resumeAt)}
             </button>
-            <button type="button" className="ctrl" onClick={togglePiP} disabled={!videoSrc}>🗔 PiP</button>
-            <button type="button" className="ctrl" onClick={toggleFullscreen} disabled={!videoSrc}>⛶ Full</button>
+            <button type="button" className="btn" onClick={restartPlayback}>Empezar desde el principio</button>
           </div>
-        </div>
+        )}
 
         <div className="actions actions--video">
           <button className="btn primary" onClick={toggleFav} disabled={favBusy || isFav === null} aria-pressed={!!isFav}>
             {favBusy ? 'Guardando…' : isFav ? 'Quitar de favoritos' : 'Añadir a favoritos'}
           </button>
+          <SyncBadge entry={favSync} />
         </div>
         {added && <p role="status" className="muted">{addedMsg}</p>}
       </div>
 
-      {(estreno || duracion || genres.length) && (
+      {(estreno || duracion || genres.length || progress?.watched) && (
         <section className="movie-meta">
           <h2>Detalles</h2>
           <ul className="meta-list">
             {estreno && <li><strong>Estreno:</strong> {estreno}{year ? ` (${year})` : ''}</li>}
             {duracion && <li><strong>Duración:</strong> {duracion}</li>}
             {!!genres.length && <li><strong>Géneros:</strong> {genres.join(', ')}</li>}
+            {progress?.watched && <li><strong>Estado:</strong> ✓ Ya la viste</li>}
           </ul>
         </section>
       )}
@@ -388,6 +331,9 @@ export default function MovieDetail() {
           </button>
         )}
       </section>
+
+      {/* 💬 Reseñas: la propia (crear/editar/eliminar) y las de los demás */}
+      <Reviews movieId={movie.id} fallbackAverage={movie.avgRating} />
     </section>
   )
 }
@@ -0,0 +1,292 @@
+/**
+ * @file Reviews.tsx
+ * @summary Reviews section of the movie page: rating summary (average + histogram), the
+ * signed-in user's own review (write, edit, delete) and a paginated, sortable list of
+ * everyone else's reviews with "helpful" votes.
+ */
+import { useEffect, useId, useState } from 'react'
+import { Star, StarHalf } from 'lucide-react'
+import { isSessionExpired } from '../../services/api'
+import { Ratings, currentRaterId, ratingKeys, ratingTarget, type ReviewSort } from '../../services/ratings'
+import { useMutation, useQuery } from '../../hooks/useQuery'
+import { usePendingWrite } from '../../hooks/useOnlineStatus'
+import { useSession } from '../../hooks/useSession'
+import { useToast } from '../../components/toast/ToastProvider'
+import SyncBadge from '../../components/offline/SyncBadge'
+import { StarRatingInput } from './StarRating'
+import type { Rating, RatingSummary } from '../../types'
+import './Reviews.scss'
+
+/** Reviews per page. */
+const PAGE_SIZE = 5
+/** Longest review accepted. */
+const MAX_COMMENT = 1000
+
+const SORT_LABELS: Record<ReviewSort, string> = { recent: 'Más recientes', helpful: 'Más útiles' }
+
+function formatReviewDate(iso?: string) {
+  const date = iso ? new Date(iso) : null
+  if (!date || Number.isNaN(date.getTime())) return ''
+  return new Intl.DateTimeFormat('es-CO', { year: 'numeric', month: 'short', day: 'numeric' }).format(date)
+}
+
+const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`
+
+/** Read-only stars (rounded to half stars), with the score spelled out for screen readers. */
+function Stars({ value }: { value: number }) {
+  const halves = Math.round(value * 2)
+  return (
+    <span className="review-stars" role="img" aria-label={`${value.toLocaleString('es-CO', { maximumFractionDigits: 1 })} de 5 estrellas`}>
+      {[1, 2, 3, 4, 5].map(n =>
+        halves === n * 2 - 1
+          ? <StarHalf key={n} size={16} aria-hidden="true" className="is-on" />
+          : <Star key={n} size={16} aria-hidden="true" className={halves >= n * 2 ? 'is-on' : ''} />
+      )}
+    </span>
+  )
+}
+
+/** Average and one bar per star value. */
+function Summary({ summary }: { summary: RatingSummary }) {
+  const max = Math.max(1, ...summary.histogram)
+  return (
+    <div className="reviews-summary">
+      <div className="reviews-summary__average">
+        <strong>{summary.average.toLocaleString('es-CO', { maximumFractionDigits: 1 })}</strong>
+        <Stars value={summary.average} />
+        <span className="muted">{plural(summary.count, 'calificación', 'calificaciones')}</span>
+      </div>
+      <ul className="reviews-histogram" aria-label="Distribución de calificaciones">
+        {[5, 4, 3, 2, 1].map(star => {
+          const n = summary.histogram[star - 1] ?? 0
+          return (
+            <li key={star}>
+              <span className="reviews-histogram__label">{star} ★</span>
+              <span className="reviews-histogram__bar" aria-hidden="true">
+                <span style={{ width: `${(n / max) * 100}%` }} />
+              </span>
+              <span className="reviews-histogram__count">
+                {n}<span className="sr-only"> con {plural(star, 'estrella', 'estrellas')}</span>
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+type ReviewFormProps = {
+  initial: Rating | null
+  busy: boolean
+  onSave: (stars: number, comment: string) => void
+  onCancel?: () => void
+}
+
+/** Stars (half-star radio group) + text. */
+function ReviewForm({ initial, busy, onSave, onCancel }: ReviewFormProps) {
+  const uid = useId()
+  const [stars, setStars] = useState(initial?.stars ?? 0)
+  const [comment, setComment] = useState(initial?.comment ?? '')
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault()
+    if (stars && !busy) onSave(stars, comment)
+  }
+
+  return (
+    <form className="review-form" onSubmit={submit} aria-label={initial ? 'Editar tu reseña' : 'Escribir una reseña'}>
+      <div className="review-form__stars">
+        <span aria-hidden="true">Tu puntuación</span>
+        <StarRatingInput value={stars} onChange={setStars} label="Tu puntuación" size={22} />
+      </div>
+
+      <label className="review-form__text">
+        <span>Tu reseña <span className="muted">(opcional)</span></span>
+        <textarea
+          value={comment}
+          onChange={e => setComment(e.target.value.slice(0, MAX_COMMENT))}
+          rows={4}
+          placeholder="¿Qué te pareció?"
+          aria-describedby={`${uid}-count`}
+        />
+        <small id={`${uid}-count`} className="muted">{comment.length}/{MAX_COMMENT}</small>
+      </label>
+
+      <div className="review-form__actions">
+        {onCancel && <button type="button" className="btn" onClick={onCancel} disabled={busy}>Cancelar</button>}
+        <button type="submit" className="btn primary" disabled={busy || !stars}>
+          {busy ? 'Guardando…' : initial ? 'Guardar cambios' : 'Publicar reseña'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+type ReviewsProps = {
+  movieId: string
+  /** Average shown when the backend sends no summary (e.g. `movie.avgRating`). */
+  fallbackAverage?: number
+}
+
+/**
+ * @component
+ * @returns The "Reseñas" section of a movie.
+ */
+export default function Reviews({ movieId, fallbackAverage }: ReviewsProps) {
+  const headingId = useId()
+  const { status } = useSession()
+  const signedIn = status === 'authenticated'
+  const me = signedIn ? currentRaterId() : null
+  const { success: showOkToast, error: showErrorToast } = useToast()
+
+  const [sort, setSort] = useState<ReviewSort>('recent')
+  const [page, setPage] = useState(1)
+  const [editing, setEditing] = useState(false)
+
+  // Otra película u otro orden: vuelta a la primera página
+  useEffect(() => { setPage(1); setEditing(false) }, [movieId])
+  useEffect(() => { setPage(1) }, [sort])
+
+  const mineQuery = useQuery(ratingKeys.mine(movieId), () => Ratings.mine(movieId), { enabled: signedIn })
+  const mine = mineQuery.data ?? null
+  const sync = usePendingWrite(ratingTarget(movieId))
+
+  // The user's own review is shown apart, so it is left out of the paged list
+  const query = { page, pageSize: PAGE_SIZE, sort, excludeUserId: me ?? undefined }
+  const listQuery = useQuery(ratingKeys.reviews(movieId, query), () => Ratings.reviews(movieId, query))
+  const result = listQuery.data
+  const others = result?.items ?? []
+  const summary = result?.summary
+    ?? (fallbackAverage ? { average: fallbackAverage, count: 0, histogram: [0, 0, 0, 0, 0] } : null)
+
+  const onWriteError = (e: unknown) => {
+    if (isSessionExpired(e)) return
+    showErrorToast(e instanceof Error && e.message ? e.message : 'No se pudo guardar tu reseña')
+  }
+  const notify = (queued: boolean, done: string) =>
+    showOkToast(queued ? 'Guardado en este dispositivo: se sincronizará en cuanto sea posible' : done)
+
+  const save = useMutation(
+    ({ stars, comment }: { stars: number; comment: string }) => Ratings.rate(movieId, stars, comment),
+    {
+      onSuccess: ({ queued }) => {
+        setEditing(false)
+        notify(queued, mine ? 'Reseña actualizada' : 'Reseña publicada')
+      },
+      onError: onWriteError,
+    }
+  )
+  const remove = useMutation(() => Ratings.remove(movieId), {
+    onSuccess: ({ queued }) => notify(queued, 'Reseña eliminada'),
+    onError: onWriteError,
+  })
+  const vote = useMutation(({ review, helpful }: { review: Rating; helpful: boolean }) => Ratings.markHelpful(review, helpful), {
+    onError: (e: unknown) => { if (!isSessionExpired(e)) showErrorToast('No se pudo registrar tu voto') },
+  })
+
+  function confirmRemove() {
+    if (window.confirm('¿Eliminar tu reseña? Esta acción no se puede deshacer.')) remove.mutate()
+  }
+
+  return (
+    <section className="movie-reviews" aria-labelledby={headingId}>
+      <h2 id={headingId}>Reseñas</h2>
+
+      {summary && summary.count > 0 ? <Summary summary={summary} /> : summary && (
+        <p className="muted">Calificación media: {summary.average.toLocaleString('es-CO', { maximumFractionDigits: 1 })} / 5</p>
+      )}
+
+      {/* Reseña propia */}
+      {signedIn && (
+        <div className="my-review">
+          <h3>Tu reseña <SyncBadge entry={sync} /></h3>
+          {mineQuery.isLoading ? (
+            <p aria-busy="true" className="muted">Cargando…</p>
+          ) : mine && !editing ? (
+            <article className="review review--mine">
+              <header>
+                <Stars value={mine.stars} />
+                {formatReviewDate(mine.updatedAt ?? mine.createdAt) && (
+                  <span className="muted">{formatReviewDate(mine.updatedAt ?? mine.createdAt)}</span>
+                )}
+              </header>
+              {mine.comment ? <p className="review__text">{mine.comment}</p> : <p className="muted">Solo calificaste con estrellas.</p>}
+              <div className="review__actions">
+                <button type="button" className="btn" onClick={() => setEditing(true)}>Editar</button>
+                <button type="button" className="btn" onClick={confirmRemove} disabled={remove.isPending}>
+                  {remove.isPending ? 'Eliminando…' : 'Eliminar'}
+                </button>
+              </div>
+            </article>
+          ) : (
+            <ReviewForm
+              key={mine?.id ?? 'new'}
+              initial={mine}
+              busy={save.isPending}
+              onSave={(stars, comment) => save.mutate({ stars, comment })}
+              onCancel={mine ? () => setEditing(false) : undefined}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Reseñas de los demás */}
+      <div className="reviews-list">
+        <div className="reviews-list__head">
+          <h3>Opiniones del público</h3>
+          <label>
+            <span>Ordenar por </span>
+            <select value={sort} onChange={e => setSort(e.target.value as ReviewSort)}>
+              {(Object.keys(SORT_LABELS) as ReviewSort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {listQuery.isLoading ? (
+          <p aria-busy="true" className="muted">Cargando reseñas…</p>
+        ) : listQuery.error && !result ? (
+          <p role="alert" className="muted">No se pudieron cargar las reseñas.</p>
+        ) : !others.length ? (
+          <p className="muted">Todavía nadie ha escrito una reseña{signedIn && !mine ? '. ¡Sé el primero!' : '.'}</p>
+        ) : (
+          <ul className="reviews-list__items">
+            {others.map(r => (
+              <li key={r.id}>
+                <article className="review">
+                  <header>
+                    <strong>{r.userName || 'Usuario'}</strong>
+                    <Stars value={r.stars} />
+                    {formatReviewDate(r.updatedAt ?? r.createdAt) && (
+                      <span className="muted">{formatReviewDate(r.updatedAt ?? r.createdAt)}</span>
+                    )}
+                  </header>
+                  {r.comment && <p className="review__text">{r.comment}</p>}
+                  {signedIn && (
+                    <button
+                      type="button"
+                      className="review__helpful"
+                      aria-pressed={!!r.votedHelpful}
+                      disabled={vote.isPending}
+                      onClick={() => vote.mutate({ review: r, helpful: !r.votedHelpful })}
+                    >
+                      👍 Útil{r.helpfulCount ? ` (${r.helpfulCount})` : ''}
+                    </button>
+                  )}
+                </article>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!!result && result.totalPages > 1 && (
+          <nav className="reviews-pager" aria-label="Páginas de reseñas">
+            <button type="button" className="btn" onClick={() => setPage(p => p - 1)} disabled={page <= 1}>‹ Anteriores</button>
+            <span aria-live="polite">Página {result.page} de {result.totalPages}</span>
+            <button type="button" className="btn" onClick={() => setPage(p => p + 1)} disabled={page >= result.totalPages}>Siguientes ›</button>
+          </nav>
+        )}
+      </div>
+    </section>
+  )
+}
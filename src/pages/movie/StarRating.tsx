@@ -1,57 +1,228 @@
-import { useState } from 'react';
-import './StarRating.scss';
+/**
+ * @file StarRating.tsx
+ * @summary The signed-in user's rating of a movie, in half-star steps.
+ * `StarRatingInput` is the bare control (ARIA radio group: arrows move and select, Inicio/Fin
+ * jump to the ends, Supr clears); the default export loads and saves the rating through
+ * `services/ratings.ts`, rolling back with a toast when the save fails.
+ */
+import { useEffect, useRef, useState } from 'react';
 import { Star } from 'lucide-react';
+import './StarRating.scss';
+import { isSessionExpired } from '../../services/api';
+import { Ratings, currentRaterId, ratingKeys, ratingTarget } from '../../services/ratings';
+import { setQueryData } from '../../services/queryCache';
+import { useMutation, useQuery } from '../../hooks/useQuery';
+import { usePendingWrite } from '../../hooks/useOnlineStatus';
+import { useSession } from '../../hooks/useSession';
+import { useToast } from '../../components/toast/ToastProvider';
+import SyncBadge from '../../components/offline/SyncBadge';
+import type { Rating } from '../../types';
+
+const STARS = [1, 2, 3, 4, 5];
+/** Smallest step of a rating. */
+const STEP = 0.5;
+/** Arrow keys change the rating quickly: it is saved once they stop. */
+const SAVE_DELAY_MS = 600;
+
+const starsLabel = (v: number) => `${v.toLocaleString('es-CO')} ${v === 1 ? 'estrella' : 'estrellas'}`;
+
+interface StarRatingInputProps {
+  /** Current rating, 0 when unrated. */
+  value: number;
+  onChange: (rating: number) => void;
+  /** Called by Supr/Retroceso or by clicking the current value; omit to disallow clearing. */
+  onClear?: () => void;
+  /** Accessible name of the group. */
+  label: string;
+  disabled?: boolean;
+  /** Icon size in px. */
+  size?: number;
+}
+
+/**
+ * @component
+ * Controlled half-star picker. Each star holds two radios (left half, right half).
+ */
+export function StarRatingInput({ value, onChange, onClear, label, disabled = false, size = 24 }: StarRatingInputProps) {
+  const [hovered, setHovered] = useState(0);
+  const radios = useRef(new Map<number, HTMLSpanElement>());
+  const shown = hovered || value;
+  // Con el grupo vacío, el tabulador entra por la primera media estrella
+  const tabStop = value || STEP;
+
+  function select(v: number) {
+    if (disabled) return;
+    onChange(v);
+    radios.current.get(v)?.focus();
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    const current = value || 0;
+    let next: number | null = null;
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowUp':
+        next = Math.min(5, current + STEP);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowDown':
+        next = Math.max(STEP, current - STEP);
+        break;
+      case 'Home':
+        next = STEP;
+        break;
+      case 'End':
+        next = 5;
+        break;
+      case ' ':
+      case 'Enter':
+        next = Number((e.target as HTMLElement).dataset.value) || null;
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (onClear && value) {
+          e.preventDefault();
+          onClear();
+        }
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (next !== null) select(next);
+  }
+
+  return (
+    <div
+      className={`star-rating__stars ${disabled ? 'is-disabled' : ''}`}
+      role="radiogroup"
+      aria-label={label}
+      aria-disabled={disabled || undefined}
+      onKeyDown={onKeyDown}
+      onMouseLeave={() => setHovered(0)}
+    >
+      {STARS.map(star => {
+        const fill = Math.max(0, Math.min(1, shown - (star - 1)));
+        return (
+          <span key={star} className="star-slot" style={{ width: size, height: size }}>
+            <Star className="icon" size={size} aria-hidden="true" />
+            <span className="star-fill" style={{ width: `${fill * 100}%` }} aria-hidden="true">
+              <Star className="icon" size={size} />
+            </span>
+            {[star - STEP, star].map(v => (
+              <span
+                key={v}
+                ref={el => { if (el) radios.current.set(v, el); else radios.current.delete(v); }}
+                className={`star-hit ${v % 1 ? 'star-hit--left' : 'star-hit--right'}`}
+                role="radio"
+                aria-checked={value === v}
+                aria-label={starsLabel(v)}
+                data-value={v}
+                tabIndex={disabled ? -1 : v === tabStop ? 0 : -1}
+                onClick={() => (value === v && onClear ? onClear() : select(v))}
+                onMouseEnter={() => !disabled && setHovered(v)}
+              />
+            ))}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Saves `stars` for the movie; 0 removes the rating. */
+function saveRating({ movieId, stars }: { movieId: string; stars: number }) {
+  return stars ? Ratings.rate(movieId, stars) : Ratings.remove(movieId);
+}
 
 interface StarRatingProps {
   movieId: string;
+  /** Shown until the user's rating has loaded (e.g. `movie.userRating`). */
   initialRating?: number;
   onRate?: (rating: number) => void;
 }
 
+/**
+ * @component
+ * Shares the `ratingKeys.mine` query with the reviews section, so both stay in sync.
+ */
 export default function StarRating({ movieId, initialRating = 0, onRate }: StarRatingProps) {
-  const [rating, setRating] = useState(initialRating);
-  const [hovered, setHovered] = useState(0);
+  const signedIn = useSession().status === 'authenticated';
+  const { error: showErrorToast } = useToast();
+  const sync = usePendingWrite(ratingTarget(movieId));
+
+  const mineQuery = useQuery(ratingKeys.mine(movieId), () => Ratings.mine(movieId), { enabled: signedIn });
+  const mine = mineQuery.data;
+  const saved = mine === undefined ? initialRating : mine?.stars ?? 0;
+
+  // Valor optimista mientras se guarda; se descarta (rollback) si falla
+  const [draft, setDraft] = useState<number | null>(null);
+  const value = draft ?? saved;
 
-  const handleClick = async (value: number) => {
-    setRating(value);
-    if (onRate) onRate(value);
-
-    try {
-      const token = localStorage.getItem('token');
-      const res = await fetch(`${import.meta.env.VITE_API_URL}/ratings`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: token ? `Bearer ${token}` : '',
-        },
-        body: JSON.stringify({ movieId, rating: value }),
+  const mutation = useMutation(saveRating, {
+    onSuccess: (_, { movieId, stars }) => {
+      setQueryData<Rating | null>(ratingKeys.mine(movieId), prev => {
+        if (!stars) return null;
+        const userId = currentRaterId() ?? '';
+        return { ...(prev ?? { id: `${movieId}:${userId}`, movieId, userId }), stars };
       });
+      setDraft(null);
+      onRate?.(stars);
+    },
+    onError: (e: unknown) => {
+      setDraft(null);
+      if (!isSessionExpired(e)) showErrorToast('No se pudo guardar tu calificación. Inténtalo de nuevo.');
+    },
+  });
 
-      if (!res.ok) {
-        const errorText = await res.text();
-        console.error('Error al guardar la calificación:', errorText);
-      } else {
-        console.log('✅ Calificación guardada correctamente');
-      }
-    } catch (error) {
-      console.error('❌ Error de red o servidor:', error);
-    }
-  };
+  // Guardado diferido: las flechas pueden cambiar el valor varias veces seguidas
+  const pending = useRef<{ movieId: string; stars: number } | null>(null);
+  const timer = useRef<number>();
+  function flush() {
+    window.clearTimeout(timer.current);
+    if (pending.current) mutation.mutate(pending.current);
+    pending.current = null;
+  }
+  function schedule(stars: number) {
+    setDraft(stars);
+    pending.current = { movieId, stars };
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, SAVE_DELAY_MS);
+  }
+
+  // Otra película (o salir de la página): se envía lo pendiente de la anterior directamente, sin
+  // la mutación del componente (sus callbacks ya no deben tocar este estado ni lanzar toasts).
+  // Ratings invalida la caché de esa película al guardar, así que su valor se refresca solo.
+  useEffect(() => () => {
+    window.clearTimeout(timer.current);
+    if (pending.current) void saveRating(pending.current).catch(() => undefined);
+    pending.current = null;
+    setDraft(null);
+  }, [movieId]);
+
+  function clear() {
+    if (mine?.comment && !window.confirm('Quitar la calificación también elimina tu reseña. ¿Continuar?')) return;
+    schedule(0);
+  }
 
   return (
     <div className="star-rating">
-      {[1, 2, 3, 4, 5].map((value) => (
-        <button
-          key={value}
-          className={`star-btn ${value <= (hovered || rating) ? 'active' : ''}`}
-          onClick={() => handleClick(value)}
-          onMouseEnter={() => setHovered(value)}
-          onMouseLeave={() => setHovered(0)}
-          aria-label={`Calificar con ${value} estrellas`}
-        >
-          <Star className="icon" size={24} />
+      <StarRatingInput
+        value={value}
+        onChange={schedule}
+        onClear={clear}
+        label="Tu calificación"
+        disabled={!signedIn}
+      />
+      <span className="star-rating__value" aria-hidden="true">
+        {value ? `${value.toLocaleString('es-CO')}/5` : 'Sin calificar'}
+      </span>
+      {!!value && signedIn && (
+        <button type="button" className="star-rating__clear" onClick={clear}>
+          Quitar
         </button>
-      ))}
+      )}
+      <SyncBadge entry={sync} />
     </div>
   );
 }
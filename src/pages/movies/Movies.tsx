@@ -1,6 +1,7 @@
 /**
  * @file Movies.tsx
- * @summary Movies listing view with optional search driven by the `?q=` query string.
+ * @summary Faceted movie browser: search, genre/year/rating/duration filters, sorting and infinite scroll,
+ * with search, filters and sort encoded in the query string so filtered views can be shared and survive reloads.
  * @remarks Accessibility notes:
  * - Keeps a single <h1> per page (WCAG 1.3.1 Info & Relationships).
  * - <h1> is marked with [data-skip-target] so the global skip-link lands here (WCAG 2.4.1 Bypass Blocks).
@@ -8,27 +9,67 @@
  */
 // src/pages/movies/Movies.tsx
 
-import { useEffect, useState } from 'react'
-import { api } from '../../services/api'
-import { useSearchParams } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { isSessionExpired } from '../../services/api'
+import {
+    Movies,
+    movieKeys,
+    applyMovieQuery,
+    computeFacets,
+    type DurationBucket,
+    type MovieFacets,
+    type MovieQuery,
+    type MovieSortField,
+} from '../../services/movies'
+import type { Movie } from '../../types'
+import { loadMovieSearch, SEARCH_STALE_MS } from '../../services/movieSearch'
+import { fetchQuery, getQueryState, hashKey, setQueryData } from '../../services/queryCache'
+import { useMutation, useQuery } from '../../hooks/useQuery'
+import type { SearchHit } from '../../utils/searchIndex'
+import Highlight, { excerpt } from '../../components/movie/Highlight'
 import MovieCard from '../../components/movie/MovieCard'
+import { useSearchParams } from 'react-router-dom'
+import MovieGrid, { appendUnique, useGridSnapshot } from '../../components/movie/MovieGrid'
 import '../home/Home.scss'
+import './Movies.scss'
 import { useToast } from '../../components/toast/ToastProvider' // 👈 toast
-import { slugify } from '../../utils/slug' // 👈 clave estable por si falta id
-
-/** Shape returned by the API; MovieCard uses a subset of these fields */
-type RawMovie = {
-    _id?: string
-    id?: string | number
-    title: string
-    year?: number | string
-    poster_url?: string
-    posterUrl?: string
-    genres?: string[]
-    description?: string
-    streamUrl?: string
+import { mapNetError } from '../../utils/netError'
+
+/** Movies added to the grid each time the end of the list comes into view. */
+const PAGE_SIZE = 24
+
+/** Server pages loaded so far for one set of filters (same shape as Home's feed). */
+type BrowseFeed = { items: Movie[]; pages: number; total: number }
+
+/** Cache key of the browse feed for `filters`. */
+const browseKey = (filters: MovieQuery) => movieKeys.list({ ...filters, pageSize: PAGE_SIZE })
+
+/**
+ * Loads the first `pages` pages for `filters` in a single request. Filters and sort travel as
+ * query params; `Movies.list` re-applies them locally only when the server ignores them.
+ * @param filters - Active filters and sort.
+ * @param pages - Number of pages to load.
+ */
+async function loadBrowse(filters: MovieQuery, pages: number): Promise<BrowseFeed> {
+    const res = await Movies.list({ ...filters, page: 1, pageSize: PAGE_SIZE * pages })
+    return { items: appendUnique([], res.items), pages, total: res.total }
 }
 
+/**
+ * Facet counts of the whole catalog for `filters`. Backends without a facets endpoint get them
+ * counted here over the catalog shared with search.
+ * @param filters - Active filters.
+ */
+async function loadFacets(filters: MovieQuery): Promise<MovieFacets> {
+    const facets = await Movies.facets(filters)
+    if (facets) return facets
+    const { catalog } = await fetchQuery(movieKeys.search(), loadMovieSearch, { staleTime: SEARCH_STALE_MS })
+    return computeFacets(catalog, filters)
+}
+
+/** Facets shown until the first counts arrive. */
+const NO_FACETS: MovieFacets = { genres: [], decades: [], ratings: [], durations: [], yearBounds: null }
+
 /* ===== TopLoader helpers (eventos globales) ===== */
 function loaderStart() {
     window.dispatchEvent(new CustomEvent('top-loader', { detail: 'start' }))
@@ -38,76 +79,263 @@ function loaderStop() {
 }
 
 /**
- * Small type guard:
- * Accepts an empty array or an array whose first element has a string `title`.
- * This avoids crashing if the backend shape varies.
+ * Sort presets offered by the sort selector. The empty value keeps the server order.
+ */
+const SORT_OPTIONS: { value: string; label: string }[] = [
+    { value: '', label: 'Relevancia' },
+    { value: 'title-asc', label: 'Título (A–Z)' },
+    { value: 'title-desc', label: 'Título (Z–A)' },
+    { value: 'year-desc', label: 'Más recientes' },
+    { value: 'year-asc', label: 'Más antiguas' },
+    { value: 'avgRating-desc', label: 'Mejor valoradas' },
+]
+
+/** Query-string keys that hold filters (everything except `q`). */
+const FILTER_KEYS = ['genres', 'yearFrom', 'yearTo', 'minRating', 'minDuration', 'maxDuration', 'sort', 'order']
+
+/** Reads a positive number from the query string, or `undefined`. */
+function numParam(params: URLSearchParams, key: string) {
+    const raw = params.get(key)
+    if (raw == null || raw.trim() === '') return undefined
+    const n = Number(raw)
+    return Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+/**
+ * Builds the typed filter query from the URL.
+ * @param params - Current search params.
+ */
+function queryFromParams(params: URLSearchParams): MovieQuery {
+    const sort = params.get('sort') as MovieSortField | null
+    const order = params.get('order')
+    return {
+        genres: (params.get('genres') || '').split(',').map(g => g.trim()).filter(Boolean),
+        yearFrom: numParam(params, 'yearFrom'),
+        yearTo: numParam(params, 'yearTo'),
+        minRating: numParam(params, 'minRating'),
+        minDuration: numParam(params, 'minDuration'),
+        maxDuration: numParam(params, 'maxDuration'),
+        sort: sort === 'title' || sort === 'year' || sort === 'avgRating' ? sort : undefined,
+        order: order === 'asc' || order === 'desc' ? order : undefined,
+    }
+}
+
+/**
+ * Number input of a range filter. The value is written to the URL (and the results reloaded)
+ * on blur or Enter, not on every keystroke.
  */
-function isMovieArray(x: any): x is RawMovie[] {
-    return Array.isArray(x) && (x.length === 0 || typeof x[0]?.title === 'string')
+function NumberFilter({ label, placeholder, min, max, value, onCommit }: {
+    label: string
+    placeholder: string
+    min?: number
+    max?: number
+    value?: number
+    onCommit: (value: string) => void
+}) {
+    const [draft, setDraft] = useState(value == null ? '' : String(value))
+
+    function commit() {
+        if (draft.trim() !== (value == null ? '' : String(value))) onCommit(draft.trim())
+    }
+
+    return (
+        <label>
+            <span className="sr-only">{label}</span>
+            <input
+                type="number"
+                inputMode="numeric"
+                placeholder={placeholder}
+                min={min}
+                max={max}
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => { if (e.key === 'Enter') commit() }}
+            />
+        </label>
+    )
 }
 
 /**
  * @component
- * @returns Movies grid fed by the `/movies` endpoint and filtered via the `?q=` parameter.
+ * @returns Movie browser over the `/movies` catalog.
+ * - Without search text, filters and sort are sent to the server and pages are requested
+ *   while scrolling, so the catalog is never downloaded at once.
+ * - With search text (`?q=`), the query runs against the in-browser fuzzy index (typos, accents,
+ *   prefixes), which the server cannot do; filters, facet counts and sorting then run over that
+ *   result set locally.
  */
 export default function MoviesPage() {
-    // Page state for list, loading and error
-    const [movies, setMovies] = useState<RawMovie[]>([])
-    const [loading, setLoading] = useState(true)
-    const [error, setError] = useState<string | null>(null)
-
-    // Read "?q=" from URL so navigation controls the query
-    const [searchParams] = useSearchParams()
+    // The URL is the single source of truth for search, filters and sort
+    const [searchParams, setSearchParams] = useSearchParams()
     const q = (searchParams.get('q') || '').trim()
+    const hasQuery = q.length > 0
+    const filters = useMemo(() => queryFromParams(searchParams), [searchParams])
+
+    // Coming back from a movie: show (or reload) as many titles as were shown before
+    const snapshot = useGridSnapshot()
+    const snapshotPages = Math.max(1, Math.ceil((snapshot?.count ?? 0) / PAGE_SIZE))
+
+    // Browse: server-side filters, sort and paging
+    const feedKey = browseKey(filters)
+    const feedKeyHash = hashKey(feedKey)
+    const feed = useQuery(
+        feedKey,
+        () => loadBrowse(filters, Math.max(snapshotPages, getQueryState<BrowseFeed>(feedKey).data?.pages ?? 0)),
+        { enabled: !hasQuery }
+    )
+
+    // Search: catalog + fuzzy index from the shared query cache (instant on revisits)
+    const search = useQuery(movieKeys.search(), loadMovieSearch, { staleTime: SEARCH_STALE_MS, enabled: hasQuery })
+    // Search results are already in memory: reveal them a page at a time (from the first page
+    // again whenever the search or the filters change)
+    const viewKey = searchParams.toString()
+    const [shown, setShown] = useState({ viewKey, pages: snapshotPages })
+    const shownPages = shown.viewKey === viewKey ? shown.pages : 1
+
+    const active = hasQuery ? search : feed
+    const { isLoading: loading, isFetching } = active
+    // A failed background refresh keeps showing the cached results
+    const error = active.error && !active.data && !isSessionExpired(active.error) ? mapNetError(active.error) : null
 
     const { error: showErrorToast } = useToast() // 👈 toast roja
 
-    // Fetch on mount and whenever `q` changes
+    // Top loader while any request (including background refreshes) is in flight
+    useEffect(() => {
+        if (!isFetching) return
+        loaderStart()             // ⬅️ START loader
+        return loaderStop         // ⬅️ STOP loader
+    }, [isFetching])
+
+    // 🔴 toast when loading fails (copy kept in Spanish to match current UI language)
     useEffect(() => {
-        let alive = true
-            ; (async () => {
-                try {
-                    loaderStart()             // ⬅️ START loader
-                    setLoading(true)
-                    setError(null)
-
-                    const path = q ? `/movies?q=${encodeURIComponent(q)}` : '/movies'
-                    const resp = (await api.get(path)) as any
-
-                    // Backend may return: array, { data }, or { movies }
-                    const data = resp?.movies ?? resp?.data ?? resp
-
-                    if (!alive) return
-                    setMovies(isMovieArray(data) ? data : [])
-                } catch (err: any) {
-                    if (!alive) return
-                    // Copy kept in Spanish to match current UI language
-                    const msg =
-                        err?.response?.data?.error?.message ||
-                        err?.response?.data?.message ||
-                        err?.message ||
-                        'No se pudieron cargar las películas'
-                    setError(msg)
-                    showErrorToast(msg) // 🔴 toast
-                } finally {
-                    if (alive) setLoading(false)
-                    loaderStop()             // ⬅️ STOP loader
-                }
-            })()
-
-        return () => {
-            alive = false
+        if (error) showErrorToast(error)
+    }, [error, showErrorToast])
+
+    // Relevance-ranked hits for `q`
+    const hits = useMemo<SearchHit<Movie>[] | null>(
+        () => (hasQuery && search.data ? search.data.index.search(q) : null),
+        [hasQuery, search.data, q]
+    )
+    const matchesOf = useMemo(() => new Map(hits?.map(h => [h.item, h.matches])), [hits])
+    const searchView = useMemo(
+        () => (hits ? applyMovieQuery(hits.map(h => h.item), { ...filters, page: 1, pageSize: shownPages * PAGE_SIZE }) : null),
+        [hits, filters, shownPages]
+    )
+
+    const movies = (hasQuery ? searchView?.items : feed.data?.items) ?? []
+    const total = (hasQuery ? searchView?.total : feed.data?.total) ?? 0
+    const hasMore = movies.length < total
+
+    // Facets: over every hit when searching; while browsing, counted over the whole catalog
+    // (sort does not change them, so it is left out of the key)
+    const facetFilters = useMemo(() => ({ ...filters, sort: undefined, order: undefined }), [filters])
+    const browseFacets = useQuery(movieKeys.facets(facetFilters), () => loadFacets(facetFilters), { enabled: !hasQuery })
+    const searchFacets = useMemo(() => (hits ? computeFacets(hits.map(h => h.item), filters) : null), [hits, filters])
+    const facets = (hasQuery ? searchFacets : browseFacets.data) ?? NO_FACETS
+    const hasFilters = FILTER_KEYS.some(k => searchParams.has(k))
+
+    /** Card with the search matches marked in its title, plus an excerpt when only other fields matched. */
+    function renderMovie(m: Movie) {
+        const matches = matchesOf.get(m)
+        if (!matches) return <MovieCard movie={m} />
+        let snippet: React.ReactNode = null
+        if (!matches.title && matches.description && m.description) {
+            const cut = excerpt(m.description, matches.description)
+            snippet = <Highlight text={cut.text} ranges={cut.ranges} />
+        } else if (!matches.title && matches.genres) {
+            snippet = <>Género: <Highlight text={m.genres.join(', ')} ranges={matches.genres} /></>
         }
-    }, [q, showErrorToast])
+        return (
+            <MovieCard
+                movie={m}
+                highlight={{ title: <Highlight text={m.title} ranges={matches.title} />, snippet }}
+            />
+        )
+    }
 
-    const hasQuery = q.length > 0
+    const selectedGenres = (filters.genres ?? []).map(g => g.toLowerCase())
+    // Selected genres stay listed even when no movie matches them
+    const genreOptions = [
+        ...facets.genres,
+        ...(filters.genres ?? [])
+            .filter(g => !facets.genres.some(f => f.value.toLowerCase() === g.toLowerCase()))
+            .map(value => ({ value, count: 0 })),
+    ]
+    const sortValue = filters.sort ? `${filters.sort}-${filters.order ?? (filters.sort === 'title' ? 'asc' : 'desc')}` : ''
+
+    /**
+     * Writes filter changes to the URL (a new filter set starts from its first page).
+     * @param changes - Keys to set; `undefined`/empty values remove the key.
+     */
+    function updateParams(changes: Record<string, string | number | undefined>) {
+        const params = new URLSearchParams(searchParams)
+        for (const [k, v] of Object.entries(changes)) {
+            if (v === undefined || v === '') params.delete(k)
+            else params.set(k, String(v))
+        }
+        setSearchParams(params)
+    }
+
+    function toggleGenre(genre: string) {
+        const key = genre.toLowerCase()
+        const next = selectedGenres.includes(key)
+            ? (filters.genres ?? []).filter(g => g.toLowerCase() !== key)
+            : [...(filters.genres ?? []), genre]
+        updateParams({ genres: next.join(',') })
+    }
+
+    function selectDuration(bucket: DurationBucket | null) {
+        updateParams({ minDuration: bucket?.min, maxDuration: bucket?.max })
+    }
+
+    function changeSort(value: string) {
+        const [sort, order] = value ? value.split('-') : []
+        updateParams({ sort, order })
+    }
+
+    function clearFilters() {
+        const params = new URLSearchParams(searchParams)
+        FILTER_KEYS.forEach(k => params.delete(k))
+        setSearchParams(params)
+    }
+
+    /** Browse: requests the next server page and appends it to the cached feed. */
+    const more = useMutation(
+        async () => {
+            const next = (getQueryState<BrowseFeed>(feedKey).data?.pages ?? 1) + 1
+            const res = await Movies.list({ ...filters, page: next, pageSize: PAGE_SIZE })
+            const items = res.items
+            setQueryData<BrowseFeed>(feedKey, prev => {
+                const all = appendUnique(prev?.items ?? [], items)
+                // An empty page means the total was optimistic: stop asking
+                return { items: all, pages: next, total: items.length ? res.total : all.length }
+            })
+        },
+        { onError: e => { if (!isSessionExpired(e)) showErrorToast(mapNetError(e)) } } // 🔴 la lista ya cargada se mantiene
+    )
+
+    // Another filter set has its own feed: a failure on the previous one no longer applies
+    const { reset: resetMore } = more
+    useEffect(resetMore, [feedKeyHash, resetMore])
+
+    /** Infinite scroll: the next page of search results, or of the server feed (retried after a failure when the user scrolls again). */
+    function loadMore() {
+        if (hasQuery) setShown({ viewKey, pages: shownPages + 1 })
+        else if (!more.isPending) more.mutate()
+    }
+
+    const activeDecade = facets.decades.find(d => filters.yearFrom === d.value && filters.yearTo === d.value + 9)
+    const activeDuration = facets.durations.find(
+        d => filters.minDuration === d.value.min && filters.maxDuration === d.value.max
+    )
 
     return (
         /**
          * Main content region for this view.
          * Pairs with the global skip-link so keyboard users can jump here quickly.
          */
-        <section className="home">
+        <section className="home movies-page">
             {/**
        * Single page heading (h1). Marked as the preferred skip target so
        * Enter on the skip-link focuses this element first (WCAG 2.4.1).
@@ -116,41 +344,184 @@ export default function MoviesPage() {
                 {hasQuery ? `Resultados para “${q}”` : 'Películas'}
             </h1>
 
-            {/* Lightweight loading indicator (could add aria-busy on a wrapper if desired) */}
-            {loading && <p style={{ opacity: 0.8 }}>Cargando…</p>}
-
-            {/* Error message in a distinct color for quick visual scanning */}
-            {error && <p style={{ color: 'salmon' }}>{error}</p>}
-
-            {/* Normal / empty rendering once not loading and no error */}
-            {!loading && !error && (
-                movies.length > 0 ? (
-                    /**
-                     * Responsive grid of MovieCard articles.
-                     * <ul>/<li> would also be valid; cards use <article> semantics internally.
-                     */
-                    <div className="grid">
-                        {movies.map((m, i) => {
-                            const year =
-                                (m as any).year ??
-                                (typeof (m as any).release_date === 'string' ? (m as any).release_date.slice(0, 4) : '')
-                            // 👇 key estable: usa _id/id/slug y si faltan, título+year+índice
-                            const key =
-                                (m as any)._id ??
-                                (m as any).id ??
-                                (m as any).slug ??
-                                `${slugify(m.title)}-${year}-${i}`
-
-                            return <MovieCard key={String(key)} movie={m as any} />
-                        })}
+            <div className="movies-browse">
+                {/* ===== Filtros (facetas) ===== */}
+                <aside className="movies-filters" aria-label="Filtros">
+                    <fieldset>
+                        <legend>Géneros</legend>
+                        {genreOptions.length === 0 && <p className="muted small">Sin géneros.</p>}
+                        {genreOptions.map(g => (
+                            <label key={g.value} className="facet-option">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedGenres.includes(g.value.toLowerCase())}
+                                    onChange={() => toggleGenre(g.value)}
+                                />
+                                <span>{g.value}</span>
+                                <span className="facet-count">{g.count}</span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <fieldset>
+                        <legend>Año de estreno</legend>
+                        <div className="facet-range">
+                            <NumberFilter
+                                key={`yearFrom-${filters.yearFrom ?? ''}`}
+                                label="Desde el año"
+                                placeholder={facets.yearBounds ? String(facets.yearBounds.min) : 'Desde'}
+                                min={facets.yearBounds?.min}
+                                max={facets.yearBounds?.max}
+                                value={filters.yearFrom}
+                                onCommit={v => updateParams({ yearFrom: v })}
+                            />
+                            <span aria-hidden="true">–</span>
+                            <NumberFilter
+                                key={`yearTo-${filters.yearTo ?? ''}`}
+                                label="Hasta el año"
+                                placeholder={facets.yearBounds ? String(facets.yearBounds.max) : 'Hasta'}
+                                min={facets.yearBounds?.min}
+                                max={facets.yearBounds?.max}
+                                value={filters.yearTo}
+                                onCommit={v => updateParams({ yearTo: v })}
+                            />
+                        </div>
+                        {facets.decades.map(d => (
+                            <label key={d.value} className="facet-option">
+                                <input
+                                    type="radio"
+                                    name="decade"
+                                    checked={activeDecade === d}
+                                    onChange={() => updateParams({ yearFrom: d.value, yearTo: d.value + 9 })}
+                                />
+                                <span>Años {d.value}</span>
+                                <span className="facet-count">{d.count}</span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <fieldset>
+                        <legend>Valoración mínima</legend>
+                        <label className="facet-option">
+                            <input
+                                type="radio"
+                                name="minRating"
+                                checked={filters.minRating == null}
+                                onChange={() => updateParams({ minRating: undefined })}
+                            />
+                            <span>Cualquiera</span>
+                        </label>
+                        {facets.ratings.map(r => (
+                            <label key={r.value} className="facet-option">
+                                <input
+                                    type="radio"
+                                    name="minRating"
+                                    checked={filters.minRating === r.value}
+                                    onChange={() => updateParams({ minRating: r.value })}
+                                />
+                                <span>{'★'.repeat(r.value)} o más</span>
+                                <span className="facet-count">{r.count}</span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <fieldset>
+                        <legend>Duración</legend>
+                        <label className="facet-option">
+                            <input
+                                type="radio"
+                                name="duration"
+                                checked={filters.minDuration == null && filters.maxDuration == null}
+                                onChange={() => selectDuration(null)}
+                            />
+                            <span>Cualquiera</span>
+                        </label>
+                        {facets.durations.map(d => (
+                            <label key={d.value.label} className="facet-option">
+                                <input
+                                    type="radio"
+                                    name="duration"
+                                    checked={activeDuration === d}
+                                    onChange={() => selectDuration(d.value)}
+                                />
+                                <span>{d.value.label}</span>
+                                <span className="facet-count">{d.count}</span>
+                            </label>
+                        ))}
+                        <div className="facet-range">
+                            <NumberFilter
+                                key={`minDuration-${filters.minDuration ?? ''}`}
+                                label="Duración mínima en minutos"
+                                placeholder="Mín."
+                                min={0}
+                                value={filters.minDuration}
+                                onCommit={v => updateParams({ minDuration: v })}
+                            />
+                            <span aria-hidden="true">–</span>
+                            <NumberFilter
+                                key={`maxDuration-${filters.maxDuration ?? ''}`}
+                                label="Duración máxima en minutos"
+                                placeholder="Máx."
+                                min={0}
+                                value={filters.maxDuration}
+                                onCommit={v => updateParams({ maxDuration: v })}
+                            />
+                        </div>
+                    </fieldset>
+
+                    {hasFilters && (
+                        <button type="button" className="btn ghost" onClick={clearFilters}>
+                            Limpiar filtros
+                        </button>
+                    )}
+                </aside>
+
+                <div className="movies-results">
+                    <div className="movies-toolbar">
+                        {/* Result count, announced when filters change */}
+                        <p className="muted" aria-live="polite">
+                            {!loading && !error && (total === 1 ? '1 resultado' : `${total} resultados`)}
+                        </p>
+                        <label>
+                            <span>Ordenar por </span>
+                            <select value={sortValue} onChange={e => changeSort(e.target.value)}>
+                                {SORT_OPTIONS.map(o => (
+                                    <option key={o.value} value={o.value}>{o.label}</option>
+                                ))}
+                            </select>
+                        </label>
                     </div>
-                ) : (
-                    // Clear empty state, adapted depending on whether a query is active
-                    <p style={{ opacity: 0.8 }}>
-                        {hasQuery ? 'No hay coincidencias.' : 'No hay películas para mostrar.'}
-                    </p>
-                )
-            )}
+
+                    {hasQuery && search.data?.offline && (
+                        <p className="muted small" role="status">Sin conexión: buscando en la copia guardada del catálogo.</p>
+                    )}
+
+                    {/* Lightweight loading indicator (could add aria-busy on a wrapper if desired) */}
+                    {loading && <p style={{ opacity: 0.8 }}>Cargando…</p>}
+
+                    {/* Error message in a distinct color for quick visual scanning */}
+                    {error && <p style={{ color: 'salmon' }}>{error}</p>}
+
+                    {/* Normal / empty rendering once not loading and no error */}
+                    {!loading && !error && (
+                        movies.length > 0 ? (
+                            <MovieGrid
+                                items={movies}
+                                renderItem={renderMovie}
+                                hasMore={hasMore}
+                                loadingMore={!hasQuery && more.isPending}
+                                loadFailed={!hasQuery && !!more.error}
+                                onLoadMore={loadMore}
+                            />
+                        ) : (
+                            // Clear empty state, adapted depending on whether a query or filter is active
+                            <p style={{ opacity: 0.8 }}>
+                                {hasQuery || hasFilters ? 'No hay coincidencias.' : 'No hay películas para mostrar.'}
+                            </p>
+                        )
+                    )}
+                </div>
+            </div>
         </section>
     )
 }
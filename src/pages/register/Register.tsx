@@ -8,7 +8,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import './Register.scss'
-import { Auth, setToken } from '../../services/auth'
+import { authProvider } from '../../services/authProvider'
 import { useToast } from '../../components/toast/ToastProvider'
 
 const AGE_MIN = 13
@@ -28,7 +28,6 @@ export default function Register() {
   const originState = location.state as {
     fromFooter?: boolean
     returnTo?: string
-    tokenSnapshot?: string | null
   } | undefined
 
   const [name, setName] = useState('')
@@ -124,10 +123,6 @@ export default function Register() {
     !loading
 
   const handleCancel = () => {
-    if (originState?.tokenSnapshot) {
-      setToken(originState.tokenSnapshot)
-    }
-
     if (originState?.fromFooter && originState.returnTo) {
       navigate(originState.returnTo, { replace: true })
       return
@@ -153,14 +148,14 @@ export default function Register() {
     setLoading(true)
     loaderStart() // ⬅️ START loader
     try {
-      await Auth.signup(
+      await authProvider.signup({
         name,
         apellido,
-        emailSuggestion || email,
+        email: emailSuggestion || email,
         password,
-        password2,
-        typeof age === 'number' ? age : Number(age)
-      )
+        confirmPassword: password2,
+        ageOrDob: typeof age === 'number' ? age : Number(age),
+      })
       showSuccessToast('Cuenta creada con exito!!.')
       navigate('/')
     } catch (err: any) {
@@ -2,13 +2,13 @@
 
 /**
  * @file src/pages/reset-password/ResetPassword.tsx
- * @summary Final step of the Supabase password recovery flow (set a new password).
+ * @summary Final step of the password recovery flow (set a new password).
  */
 
 import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import './ResetPassword.scss';
-import { supa } from '../../services/supa';
+import { authProvider } from '../../services/authProvider';
 import { useToast } from '../../components/toast/ToastProvider';
 import { pushFlashToast } from '../../utils/flashToast';
 
@@ -50,94 +50,22 @@ export default function ResetPassword() {
 
     useEffect(() => { if (err) errRef.current?.focus(); }, [err]);
 
-    // si ya hay sesión, habilita
+    // Valida el enlace: ?code=... | #access_token=... | token_hash/token+email | sesión previa
     useEffect(() => {
         (async () => {
-            try {
-                const { data } = await supa.auth.getSession();
-                if (data.session) setHasAuth(true);
-            } catch { }
-        })();
-    }, []);
-
-    // limpia URL sin romper HashRouter
-    function cleanRecoveryParams() {
-        const u = new URL(window.location.href);
-        const isHashRouter = u.hash.startsWith('#/');
-        if (isHashRouter) {
-            const routeOnly = u.hash.split('?')[0];
-            window.history.replaceState({}, document.title, routeOnly);
-        } else {
-            window.history.replaceState({}, document.title, window.location.pathname);
-        }
-    }
-
-    // Toma tokens del enlace: ?code=... | #access_token=... | token_hash/token+email
-    useEffect(() => {
-        (async () => {
-            try {
-                const href = window.location.href;
-                const url = new URL(href);
-                const q = url.searchParams;
-                const hash = new URLSearchParams(url.hash.replace(/^#/, ''));
-
-                const code = q.get('code') || undefined;
-                const access_token = hash.get('access_token') || undefined;
-                const token_hash = hash.get('token_hash') || q.get('token_hash') || undefined;
-                const token = hash.get('token') || q.get('token') || undefined;
-                const email = q.get('email') || hash.get('email') || undefined;
-
-                // 1) PKCE: ?code=...
-                if (code) {
-                    const { error } = await supa.auth.exchangeCodeForSession(href);
-                    if (error) {
-                        if (!email) throw error;
-                        const { error: vErr } = await supa.auth.verifyOtp({ email, token: code, type: 'recovery' });
-                        if (vErr) throw vErr;
-                    }
-                    setHasAuth(true);
-                    cleanRecoveryParams();
-                    return;
-                }
-
-                // 2) Legado: #access_token=...  → habilitamos botón y guardamos token.
-                if (access_token) {
-                    setHasAuth(true);
-                    setRecoveryToken(access_token);
-                    // Intentamos dejar sesión en background (si falla igual seguimos con fetch en submit)
-                    supa.auth.exchangeCodeForSession(href).finally(() => cleanRecoveryParams());
-                    return;
-                }
-
-                // 3) OTP directo
-                if (token_hash || (token && email)) {
-                    if (token && email) {
-                        const { error } = await supa.auth.verifyOtp({ email, token, type: 'recovery' });
-                        if (error) throw error;
-                    } else if (token_hash) {
-                        const { error } = await supa.auth.verifyOtp({ type: 'recovery', token_hash });
-                        if (error) throw error;
-                    }
-                    setHasAuth(true);
-                    cleanRecoveryParams();
-                    return;
-                }
-
-                // 4) Por si quedaba sesión
-                const { data } = await supa.auth.getSession();
-                if (data.session) {
-                    setHasAuth(true);
-                    cleanRecoveryParams();
-                    return;
-                }
-
+            const res = await authProvider.verifyRecoveryLink(window.location.href);
+            if (res.ok) {
+                setHasAuth(true);
+                setRecoveryToken(res.accessToken ?? null);
+                return;
+            }
+            if (res.reason === 'missing') {
                 setErr('El enlace de recuperación no trae el token de autenticación. Ábrelo desde el correo o solicita uno nuevo.');
-                setHasAuth(false);
-            } catch (e: any) {
-                console.warn('[reset-password] Could not validate recovery link:', e?.message || e);
+            } else {
+                console.warn('[reset-password] Could not validate recovery link:', res.message);
                 setErr('No se pudo validar el enlace de recuperación. Solicita uno nuevo.');
-                setHasAuth(false);
             }
+            setHasAuth(false);
         })();
     }, []);
 
@@ -150,36 +78,12 @@ export default function ResetPassword() {
             if (!passStrong) throw new Error('La contraseña no cumple los requisitos.');
             if (!same) throw new Error('Las contraseñas no coinciden.');
 
-            if (recoveryToken) {
-                // ✅ Camino robusto para hash con access_token (sin sesión en cliente)
-                const SUPA_URL = import.meta.env.VITE_SUPABASE_URL as string;
-                const ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
-                const res = await fetch(`${SUPA_URL}/auth/v1/user`, {
-                    method: 'PUT',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'apikey': ANON,
-                        'Authorization': `Bearer ${recoveryToken}`,
-                    },
-                    body: JSON.stringify({ password: pass1 }),
-                });
-                if (!res.ok) {
-                    let detail = 'No se pudo actualizar la contraseña.';
-                    try {
-                        const data = await res.json();
-                        detail = data?.error_description || data?.msg || detail;
-                    } catch { }
-                    throw new Error(detail);
-                }
-            } else {
-                // Sesión activa normal
-                const { error } = await supa.auth.updateUser({ password: pass1 });
-                if (error) throw error;
-            }
+            // Con sesión → updateUser; con access_token legado → API de Auth directa
+            await authProvider.updatePassword(pass1, recoveryToken ?? undefined);
 
             pushFlashToast({ kind: 'success', text: 'Contraseña actualizada. Inicia sesión.' });
             setMsg('¡Contraseña actualizada! Te llevamos al inicio de sesión…');
-            try { await supa.auth.signOut(); } catch { }
+            try { await authProvider.finishRecovery(); } catch { }
             setTimeout(() => navigate('/login', { replace: true }), 800);
         } catch (e: any) {
             const message = e?.message || 'No se pudo actualizar la contraseña.';
@@ -26,23 +26,40 @@ import ResetPassword from '../pages/reset-password/ResetPassword'
 
 import Breadcrumbs from '../components/Breadcrumbs/Breadcrumbs'
 import SkipLink from '../components/a11y/SkipLink'
+import CommandPalette from '../components/command-palette/CommandPalette'
 
 import ErrorBoundary from '../components/error-boundary/ErrorBoundary'
 import NotFound from '../pages/not-found/NotFound'
+import { useSession } from '../hooks/useSession'
 
-/** Auth gate (token mínimo en localStorage) */
-const isAuthed = () => !!localStorage.getItem('token')
-
+/** Auth gate: only a well-formed, non-expired token unlocks the route. */
 function Protected({ children }: { children: JSX.Element }) {
   const location = useLocation()
+  const { status } = useSession()
   if (hasSupabaseAuthParams()) return children
-  return isAuthed() ? children : <Navigate to="/login" replace state={{ from: location }} />
+  if (status === 'authenticated') return children
+  const next = encodeURIComponent(location.pathname + location.search + location.hash)
+  return <Navigate to={`/login?next=${next}`} replace state={{ from: location }} />
 }
 
 function GuestOnly({ children }: { children: JSX.Element }) {
   const location = useLocation()
+  const { status } = useSession()
   if (hasSupabaseAuthParams()) return children
-  return isAuthed() ? <Navigate to="/" replace state={{ from: location }} /> : children
+  return status === 'authenticated' ? <Navigate to="/" replace state={{ from: location }} /> : children
+}
+
+/**
+ * Web Share Target (see the manifest in vite.config.ts): turns what another app shared
+ * into a movie search. Apps send the title in `title` or `text`, sometimes with a link.
+ */
+function ShareTarget() {
+  const { search } = useLocation()
+  const params = new URLSearchParams(search)
+  const shared = [params.get('title'), params.get('text')]
+    .map(v => (v ?? '').replace(/https?:\/\/\S+/g, '').trim())
+    .find(Boolean)
+  return <Navigate to={shared ? `/movies?q=${encodeURIComponent(shared)}` : '/movies'} replace />
 }
 
 function FooterSwitcher() {
@@ -84,6 +101,7 @@ function InnerApp() {
           <main id="main" tabIndex={-1}>
             <Routes>
               <Route path="/auth/callback" element={<AuthCallback />} />
+              <Route path="/share" element={<ShareTarget />} />
 
               {/* Protegidas */}
               <Route path="/" element={<Protected><Home /></Protected>} />
@@ -108,6 +126,9 @@ function InnerApp() {
       </Suspense>
 
       <FooterSwitcher />
+
+      {/* Ctrl/⌘+K: paleta de comandos (navega, así que vive dentro del Router) */}
+      <CommandPalette />
     </>
   )
 }
@@ -1,15 +1,77 @@
 /**
  * @file api.ts
- * @description Thin wrapper around the Fetch API that injects auth headers and JSON helpers.
+ * @description Thin wrapper around the Fetch API that injects auth headers and JSON helpers,
+ * with per-call timeouts, cancellation and exponential-backoff retries for idempotent verbs.
+ * Expired sessions (401) trigger a single shared token refresh before giving up and sending
+ * the user back to `/login`.
  */
+import { clearToken, getToken, setToken } from './auth'
+import { pushFlashToast } from '../utils/flashToast'
+
 const BASE = import.meta.env.VITE_API_URL
 
+/** Default time (ms) a request may take before it is aborted. */
+const DEFAULT_TIMEOUT_MS = 15_000
+/** Default number of retries applied to idempotent verbs (GET, PUT, DELETE…). */
+const DEFAULT_RETRIES = 2
+/** Base delay (ms) for the exponential backoff between retries. */
+const DEFAULT_RETRY_DELAY_MS = 300
+
+/** HTTP verbs that can be safely replayed without side effects. */
+const IDEMPOTENT = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'])
+
+/** Endpoint that exchanges the current (expired) JWT for a fresh one. */
+const REFRESH_PATH = '/auth/refresh'
+/** Auth endpoints whose 401 means "bad credentials" (or is irrelevant), not "expired session". */
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/signup', '/auth/logout', REFRESH_PATH]
+
+/**
+ * Error thrown by the API client for any failed request.
+ * Keeps the HTTP status, an optional machine-readable code and the parsed response body.
+ * `status` is `0` when no HTTP response was received (network failure or timeout).
+ */
+export class ApiError extends Error {
+  /** HTTP status code, or `0` when the server could not be reached. */
+  readonly status: number
+  /**
+   * Machine-readable code (backend `code` field, `ERR_NETWORK`, `ERR_TIMEOUT`, `ERR_PARSE` or
+   * `ERR_SESSION_EXPIRED`).
+   */
+  readonly code?: string
+  /** Parsed JSON body (or raw text) returned by the server, when available. */
+  readonly body?: unknown
+
+  constructor(message: string, opts: { status: number; code?: string; body?: unknown }) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = opts.status
+    this.code = opts.code
+    this.body = opts.body
+  }
+}
+
+/**
+ * Per-call options accepted by every helper in {@link api}.
+ */
+export type RequestOptions = {
+  /** Signal used to cancel the request (e.g. from an effect cleanup). */
+  signal?: AbortSignal
+  /** Maximum time per attempt in ms before aborting with `ERR_TIMEOUT`. */
+  timeoutMs?: number
+  /** Retries on network/5xx failures. Defaults to 2 for idempotent verbs and 0 otherwise. */
+  retries?: number
+  /** Base backoff delay in ms; doubles on every attempt. */
+  retryDelayMs?: number
+  /** Extra headers merged over the defaults. */
+  headers?: HeadersInit
+}
+
 /**
  * Builds the default Authorization header when a token exists in localStorage.
  * @returns Headers compatible object that may contain the Bearer token.
  */
 function authHeaders(): HeadersInit {
-  const token = localStorage.getItem('token')
+  const token = getToken()
   return token ? { Authorization: `Bearer ${token}` } : {}
 }
 
@@ -28,14 +90,118 @@ function urlJoin(base: string | undefined, path: string) {
 }
 
 /**
- * Performs an HTTP request against the backend and returns the parsed JSON payload.
+ * Builds an {@link ApiError} from a non-successful response, extracting the backend message.
+ * @param res - Failed fetch response.
+ * @returns Error carrying status, code and parsed body.
+ */
+async function toApiError(res: Response): Promise<ApiError> {
+  let msg = `HTTP ${res.status} ${res.statusText}`
+  let body: unknown
+  let code: string | undefined
+  const text = await res.text().catch(() => '')
+  if (text) {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      body = text
+    }
+  }
+  const b = body as any
+  if (typeof b === 'string') msg = b
+  else if (b?.error) msg = typeof b.error === 'string' ? b.error : (b.error?.message ?? JSON.stringify(b.error))
+  else if (typeof b?.message === 'string') msg = b.message
+  if (typeof b?.code === 'string') code = b.code
+  else if (typeof b?.error?.code === 'string') code = b.error.code
+  return new ApiError(msg, { status: res.status, code, body })
+}
+
+/**
+ * Whether a failed attempt is worth retrying (network failures, timeouts, 408/429 and 5xx).
+ * @param err - Error produced by the attempt.
+ */
+export function isRetryable(err: unknown) {
+  if (!(err instanceof ApiError)) return false
+  return err.status === 0 || err.status === 408 || err.status === 429 || err.status >= 500
+}
+
+/**
+ * Waits `ms` milliseconds, rejecting early if the signal aborts.
+ * @param ms - Delay in milliseconds.
+ * @param signal - Optional caller signal.
+ */
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const t = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(t)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs a single fetch attempt linked to the caller signal and bounded by `timeoutMs`.
+ * @param url - Absolute request URL.
+ * @param init - Fetch init (method, headers, body).
+ * @param signal - Optional caller signal; its abort error is rethrown untouched.
+ * @param timeoutMs - Per-attempt timeout.
+ * @throws ApiError on timeout, network failure or non-2xx response.
+ */
+async function attempt(url: string, init: RequestInit, signal: AbortSignal | undefined, timeoutMs: number) {
+  const ctrl = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => { timedOut = true; ctrl.abort() }, timeoutMs)
+  const onAbort = () => ctrl.abort(signal?.reason)
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const res = await fetch(url, { ...init, signal: ctrl.signal })
+    if (!res.ok) throw await toApiError(res)
+    return res
+  } catch (err) {
+    if (err instanceof ApiError) throw err
+    if (signal?.aborted) throw err
+    if (timedOut) {
+      throw new ApiError('La peticion excedio el tiempo de espera.', { status: 0, code: 'ERR_TIMEOUT' })
+    }
+    throw new ApiError((err as Error)?.message || 'Network error', { status: 0, code: 'ERR_NETWORK' })
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Parses a successful response body. A body that is not JSON (e.g. an HTML page from a proxy)
+ * is an {@link ApiError} with code `ERR_PARSE` and the raw text as `body`.
+ * @param text - Response text.
+ * @param status - HTTP status of the response.
+ */
+function parseBody<T>(text: string, status: number): T {
+  if (!text) return undefined as T
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new ApiError('Respuesta inesperada del servidor.', { status, code: 'ERR_PARSE', body: text })
+  }
+}
+
+/**
+ * Sends the request, retrying idempotent verbs with exponential backoff on network/5xx failures.
+ * Headers are rebuilt on each call so a refreshed token is picked up.
  * @template T
  * @param path - API path to hit (relative to the configured base URL).
  * @param init - Optional RequestInit overrides such as method, headers or body.
- * @throws Error when the response is not successful or the body cannot be parsed.
+ * @param opts - Cancellation, timeout and retry options.
  * @returns A promise that resolves to the JSON payload typed as `T`.
+ * @throws ApiError with code `ERR_PARSE` when a successful response is not JSON.
  */
-async function request<T>(path: string, init?: RequestInit): Promise<T> {
+async function send<T>(path: string, init: RequestInit | undefined, opts: RequestOptions): Promise<T> {
   const method = (init?.method || 'GET').toUpperCase()
 
   // Only include Content-Type when there is a request body (POST/PUT/PATCH).
@@ -46,25 +212,109 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
     ...(needsJson ? { 'Content-Type': 'application/json' } : {}),
     ...authHeaders(),
     ...(init?.headers as HeadersInit),
+    ...(opts.headers as HeadersInit),
   }
 
-  const res = await fetch(urlJoin(BASE, path), { ...init, method, headers })
+  const retries = Math.max(0, opts.retries ?? (IDEMPOTENT.has(method) ? DEFAULT_RETRIES : 0))
+  const baseDelay = opts.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const url = urlJoin(BASE, path)
 
-  if (!res.ok) {
-    let msg = `HTTP ${res.status} ${res.statusText}`
+  for (let i = 0; ; i++) {
     try {
-      const body = await res.json()
-      if (body?.error) msg = typeof body.error === 'string' ? body.error : JSON.stringify(body.error)
-      else if (typeof body === 'string') msg = body
-    } catch {
-      const text = await res.text().catch(() => '')
-      if (text) msg = text
+      const res = await attempt(url, { ...init, method, headers }, opts.signal, timeoutMs)
+      if (res.status === 204) return undefined as unknown as T
+      return parseBody<T>(await res.text(), res.status)
+    } catch (err) {
+      if (i >= retries || !isRetryable(err)) throw err
+      // 300ms, 600ms, 1200ms… plus a little jitter to avoid thundering herds
+      await sleep(baseDelay * 2 ** i + Math.random() * baseDelay, opts.signal)
     }
-    throw new Error(msg)
   }
+}
+
+/** In-flight refresh shared by every request that hit a 401 at the same time. */
+let refreshing: Promise<string | null> | null = null
+
+/**
+ * Asks the backend for a fresh JWT. Concurrent callers share the same promise,
+ * so only one refresh request is ever in flight. Also used by the session store
+ * to renew the token shortly before it expires.
+ * @returns The new token, or `null` when the session cannot be renewed.
+ */
+export function refreshToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const r = await send<{ token?: string }>(REFRESH_PATH, { method: 'POST' }, { retries: 0 })
+        if (!r?.token) return null
+        setToken(r.token)
+        return r.token
+      } catch {
+        return null
+      }
+    })().finally(() => { refreshing = null })
+  }
+  return refreshing
+}
+
+/** Guards against several failing requests triggering multiple redirects. */
+let sessionEnding = false
+
+/**
+ * Drops the local session, leaves a flash toast for the login screen and redirects there,
+ * remembering the current location in `?next=`.
+ */
+function endSession() {
+  if (sessionEnding) return
+  sessionEnding = true
+  clearToken()
+  pushFlashToast({ kind: 'warning', title: 'Sesión expirada', text: 'Tu sesión expiró. Inicia sesión de nuevo.' })
+  const { pathname, search, hash } = window.location
+  if (pathname === '/login') {
+    sessionEnding = false
+    return
+  }
+  window.location.assign(`/login?next=${encodeURIComponent(pathname + search + hash)}`)
+}
+
+/**
+ * Performs an HTTP request against the backend and returns the parsed JSON payload.
+ * On a 401 for an authenticated call, refreshes the token once and replays the request;
+ * if the refresh fails the session is closed and the user is redirected to `/login`.
+ * @template T
+ * @param path - API path to hit (relative to the configured base URL).
+ * @param init - Optional RequestInit overrides such as method, headers or body.
+ * @param opts - Cancellation, timeout and retry options.
+ * @throws ApiError when the response is not successful or the server cannot be reached
+ *   (`code === 'ERR_SESSION_EXPIRED'` once the session has been closed).
+ * @throws The caller's abort reason (an `AbortError`) when `opts.signal` aborts.
+ * @returns A promise that resolves to the JSON payload typed as `T`.
+ */
+async function request<T>(path: string, init?: RequestInit, opts: RequestOptions = {}): Promise<T> {
+  const hadToken = !!getToken()
+  try {
+    return await send<T>(path, init, opts)
+  } catch (err) {
+    const refreshable =
+      err instanceof ApiError && err.status === 401 && hadToken &&
+      !NO_REFRESH_PATHS.includes(path.split('?')[0])
+    if (!refreshable) throw err
 
-  if (res.status === 204) return undefined as unknown as T
-  return res.json() as Promise<T>
+    if (await refreshToken()) {
+      try {
+        return await send<T>(path, init, opts)
+      } catch (retryErr) {
+        if (!(retryErr instanceof ApiError) || retryErr.status !== 401) throw retryErr
+      }
+    }
+    endSession()
+    throw new ApiError('Tu sesión expiró. Inicia sesión de nuevo.', {
+      status: 401,
+      code: 'ERR_SESSION_EXPIRED',
+      body: err.body,
+    })
+  }
 }
 
 /**
@@ -72,11 +322,31 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
  */
 export const api = {
   /** Performs a `GET` request. */
-  get: <T>(p: string) => request<T>(p, { method: 'GET' }),
+  get: <T>(p: string, o?: RequestOptions) => request<T>(p, { method: 'GET' }, o),
   /** Performs a `POST` request with an optional JSON body. */
-  post: <T>(p: string, b?: unknown) => request<T>(p, { method: 'POST', body: b != null ? JSON.stringify(b) : undefined }),
+  post: <T>(p: string, b?: unknown, o?: RequestOptions) =>
+    request<T>(p, { method: 'POST', body: b != null ? JSON.stringify(b) : undefined }, o),
   /** Performs a `PUT` request with an optional JSON body. */
-  put: <T>(p: string, b?: unknown) => request<T>(p, { method: 'PUT', body: b != null ? JSON.stringify(b) : undefined }),
+  put: <T>(p: string, b?: unknown, o?: RequestOptions) =>
+    request<T>(p, { method: 'PUT', body: b != null ? JSON.stringify(b) : undefined }, o),
   /** Performs a `DELETE` request. */
-  del: <T>(p: string) => request<T>(p, { method: 'DELETE' }),
+  del: <T>(p: string, o?: RequestOptions) => request<T>(p, { method: 'DELETE' }, o),
+}
+
+/**
+ * Whether the error comes from a caller-initiated abort (effect cleanup, navigation…).
+ * Such errors should be ignored silently instead of being shown to the user.
+ * @param err - Any thrown value.
+ */
+export function isAbortError(err: unknown) {
+  return (err as any)?.name === 'AbortError'
+}
+
+/**
+ * Whether the error means the session was closed by the client after a failed refresh.
+ * The redirect to `/login` is already under way, so pages should not show their own error.
+ * @param err - Any thrown value.
+ */
+export function isSessionExpired(err: unknown) {
+  return err instanceof ApiError && err.code === 'ERR_SESSION_EXPIRED'
 }
@@ -1,20 +1,19 @@
 // src/services/auth.ts
 import { api } from './api'
+import { parseUser, SchemaError } from './models'
+import type { User } from '../types'
 
-export interface User {
-    id: string
-    name: string
-    apellido?: string | null
-    email: string
-    age?: number | null
-    birthdate?: string | null
-    created_at?: string
-    updated_at?: string
-}
-
-export interface AuthResponse { token: string; user: User }
+export type { User }
+/** `user` es null cuando el backend solo devuelve el token. */
+export interface AuthResponse { token: string; user: User | null }
 export interface MeResponse { user: User }
 
+/** Valida la respuesta de login/registro: token obligatorio y usuario normalizado. */
+function toAuthResponse(raw: any): AuthResponse {
+    if (typeof raw?.token !== 'string' || !raw.token) throw new SchemaError('token', 'texto', raw?.token)
+    return { token: raw.token, user: raw.user == null ? null : parseUser(raw.user) }
+}
+
 const TOKEN_KEY = 'token'
 export const getToken = () => localStorage.getItem(TOKEN_KEY)
 export const TOKEN_EVENT = 'auth-token-changed'
@@ -24,6 +23,18 @@ function emitTokenChange(token: string | null) {
     window.dispatchEvent(new CustomEvent(TOKEN_EVENT, { detail: token }))
 }
 
+/**
+ * Propaga a esta pestaña los cambios de token hechos en otras (login, logout, refresh).
+ * El evento `storage` solo llega a las pestañas que NO hicieron la escritura, así que no hay eco.
+ * `key === null` corresponde a `localStorage.clear()`.
+ */
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (e) => {
+        if (e.storageArea !== localStorage) return
+        if (e.key === TOKEN_KEY || e.key === null) emitTokenChange(getToken())
+    })
+}
+
 export const setToken = (t: string) => {
     localStorage.setItem(TOKEN_KEY, t)
     emitTokenChange(t)
@@ -33,6 +44,15 @@ export const clearToken = () => {
     emitTokenChange(null)
 }
 
+/** Claves locales con datos de perfil/favoritos que no deben sobrevivir al cierre de sesión. */
+const USER_DATA_KEYS = ['user', 'profile', 'account', 'full_name', 'name', 'username', 'favorites']
+
+/** Borra la sesión local y los datos de usuario cacheados. */
+function clearLocalSession() {
+    clearToken()
+    USER_DATA_KEYS.forEach(k => localStorage.removeItem(k))
+}
+
 /** Utilidad: si recibimos DOB, lo convertimos a edad. */
 function ageFromDob(dob: string): number {
     const d = new Date(dob)
@@ -72,23 +92,44 @@ export const Auth = {
             }
         }
 
-        const r = await api.post<AuthResponse>('/auth/signup', body)
+        const r = toAuthResponse(await api.post<unknown>('/auth/signup', body))
         setToken(r.token)
         return r
     },
 
     async login(email: string, password: string) {
-        const r = await api.post<AuthResponse>('/auth/login', { email, password })
+        const r = toAuthResponse(await api.post<unknown>('/auth/login', { email, password }))
         setToken(r.token)
         return r
     },
 
-    me() {
-        return api.get<MeResponse>('/auth/me')
+    /** Usuario de la sesión actual (el backend puede envolverlo en `{ user }` o no). */
+    async me(): Promise<MeResponse> {
+        const r = await api.get<any>('/auth/me')
+        return { user: parseUser(r?.user ?? r) }
+    },
+
+    /**
+     * Cierra la sesión: revoca el token en el backend (best-effort) y limpia los datos locales.
+     * El cierre local ocurre siempre, aunque el backend no responda.
+     */
+    async logout() {
+        try {
+            if (getToken()) await api.post('/auth/logout', undefined, { timeoutMs: 5000 })
+        } catch {
+            /* el token quedará inválido al expirar */
+        } finally {
+            clearLocalSession()
+        }
     },
 
-    logout() {
-        clearToken()
+    /**
+     * Revoca todas las sesiones del usuario (todos los dispositivos) y cierra la local.
+     * A diferencia de `logout`, falla si el backend no confirma la revocación.
+     */
+    async logoutAll() {
+        await api.post('/auth/logout-all')
+        clearLocalSession()
     },
 
     async changePassword(currentPassword: string, newPassword: string) {
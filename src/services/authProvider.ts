@@ -0,0 +1,151 @@
+/**
+ * @file authProvider.ts
+ * @description Single entry point for authentication. Composes pluggable backends
+ * (our REST API for the app session, Supabase for password recovery) behind one API
+ * so the app has one source of truth for "who is logged in".
+ */
+import { restAuthBackend } from './restAuthBackend'
+import { supabaseAuthBackend } from './supabaseAuthBackend'
+
+/** Backend that produced a user or an event. */
+export type AuthSource = 'rest' | 'supabase'
+
+/**
+ * Normalized user shared by every backend.
+ */
+export type AuthUser = {
+  /** Identifier in the originating backend (`null` when the backend exposes none). */
+  id: string | null
+  /** Display name when known. */
+  name: string | null
+  /** Primary email when known. */
+  email: string | null
+  /** Backend that owns this user. */
+  source: AuthSource
+}
+
+/** Auth lifecycle events emitted by backends. */
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'USER_UPDATED' | 'PASSWORD_RECOVERY'
+
+/** Change notification delivered to provider subscribers. */
+export type AuthChange = { event: AuthEvent; source: AuthSource }
+
+/**
+ * Registration payload. `ageOrDob` accepts an age or a birth date string.
+ */
+export type SignupInput = {
+  name: string
+  apellido: string
+  email: string
+  password: string
+  confirmPassword: string
+  ageOrDob?: number | string
+}
+
+/**
+ * Outcome of validating a password-recovery link.
+ * `accessToken` is set for legacy `#access_token=` links that could not create a client session.
+ */
+export type RecoveryResult =
+  | { ok: true; accessToken?: string }
+  | { ok: false; reason: 'missing' | 'invalid'; message?: string }
+
+/**
+ * Contract every auth backend implements. Optional methods are capabilities the
+ * backend may not offer (e.g. our REST API has no recovery flow).
+ */
+export interface AuthBackend {
+  readonly source: AuthSource
+  /** Synchronous snapshot of the signed-in user (stable reference between changes). */
+  getUser(): AuthUser | null
+  /** Subscribes to auth changes; returns an unsubscribe function. */
+  onChange(listener: (event: AuthEvent) => void): () => void
+  login?(email: string, password: string): Promise<void>
+  signup?(input: SignupInput): Promise<void>
+  logout(): Promise<void>
+  /** Revokes every session of the user on every device. */
+  logoutAll?(): Promise<void>
+  /** Sends a recovery email whose link lands on `redirectTo`. */
+  requestPasswordReset?(email: string, redirectTo: string): Promise<void>
+  /** Validates the tokens carried by a recovery link (code, hash token or OTP). */
+  verifyRecoveryLink?(href: string): Promise<RecoveryResult>
+  /** Sets a new password for the recovery (or current) session. */
+  updatePassword?(password: string, accessToken?: string): Promise<void>
+}
+
+/**
+ * Public auth API used by pages and components.
+ */
+export type AuthProvider = {
+  /** Current user: the app session first, then the recovery backend's user. */
+  currentUser(): AuthUser | null
+  /** Subscribes to changes from any backend. */
+  subscribe(listener: (change: AuthChange) => void): () => void
+  login(email: string, password: string): Promise<void>
+  signup(input: SignupInput): Promise<void>
+  /** Signs out of every backend; failures in one do not stop the others. */
+  logout(): Promise<void>
+  /**
+   * Revokes all sessions server-side ("log out of all devices"), then signs out everywhere.
+   * Rejects if the session backend cannot confirm the revocation.
+   */
+  logoutAll(): Promise<void>
+  requestPasswordReset(email: string, redirectTo: string): Promise<void>
+  verifyRecoveryLink(href: string): Promise<RecoveryResult>
+  updatePassword(password: string, accessToken?: string): Promise<void>
+  /** Drops the temporary session created by a recovery link. */
+  finishRecovery(): Promise<void>
+}
+
+/**
+ * Builds an {@link AuthProvider} from a session backend and an optional recovery backend.
+ * @param backends.session - Backend that owns login/signup and the app session.
+ * @param backends.recovery - Backend used for password recovery (defaults to `session`).
+ */
+export function createAuthProvider(backends: { session: AuthBackend; recovery?: AuthBackend }): AuthProvider {
+  const { session } = backends
+  const recovery = backends.recovery ?? session
+  const all = recovery === session ? [session] : [session, recovery]
+
+  /** Returns the backend method or throws when the capability is missing. */
+  function require<K extends keyof AuthBackend>(b: AuthBackend, key: K): NonNullable<AuthBackend[K]> {
+    const fn = b[key]
+    if (typeof fn !== 'function') throw new Error(`Operación no disponible (${String(key)})`)
+    return (fn as Function).bind(b) as NonNullable<AuthBackend[K]>
+  }
+
+  return {
+    currentUser() {
+      for (const b of all) {
+        const u = b.getUser()
+        if (u) return u
+      }
+      return null
+    },
+    subscribe(listener) {
+      const offs = all.map(b => b.onChange(event => listener({ event, source: b.source })))
+      return () => offs.forEach(off => off())
+    },
+    login: (email, password) => require(session, 'login')(email, password),
+    signup: input => require(session, 'signup')(input),
+    async logout() {
+      await Promise.allSettled(all.map(b => b.logout()))
+    },
+    async logoutAll() {
+      await require(session, 'logoutAll')()
+      await Promise.allSettled(all.filter(b => b !== session).map(b => (b.logoutAll ?? b.logout).call(b)))
+    },
+    requestPasswordReset: (email, redirectTo) => require(recovery, 'requestPasswordReset')(email, redirectTo),
+    verifyRecoveryLink: href => require(recovery, 'verifyRecoveryLink')(href),
+    updatePassword: (password, accessToken) => require(recovery, 'updatePassword')(password, accessToken),
+    finishRecovery: () => (recovery === session ? Promise.resolve() : recovery.logout()),
+  }
+}
+
+/**
+ * App-wide provider: REST session + Supabase password recovery.
+ */
+export const authProvider = createAuthProvider({
+  session: restAuthBackend,
+  recovery: supabaseAuthBackend,
+})
@@ -0,0 +1,66 @@
+/**
+ * @file commands.ts
+ * @description Registry of the commands offered by the command palette (Ctrl/⌘+K).
+ * The palette registers navigation and app-wide actions; pages add contextual ones
+ * (e.g. "Añadir a favoritos" on a movie) through `hooks/useCommands.ts` while mounted.
+ */
+
+/**
+ * An entry of the command palette.
+ */
+export type Command = {
+  /** Unique id; a later registration with the same id replaces the earlier one. */
+  id: string
+  /** Visible label, also the main search field. */
+  title: string
+  /** Section heading in the palette ("Ir a", "Acciones"…). */
+  group: string
+  /** Extra words that should find this command (synonyms, English names…). */
+  keywords?: string[]
+  run: () => void
+}
+
+let commands: Command[] = []
+const listeners = new Set<() => void>()
+/** Last result of `getCommands`, recomputed when `commands` changes. */
+let visibleCache: { source: Command[]; list: Command[] } = { source: [], list: [] }
+
+function notify() {
+  listeners.forEach(l => l())
+}
+
+/**
+ * Adds commands until the returned function is called.
+ * @param list - Commands to add.
+ * @returns Unregister function.
+ */
+export function registerCommands(list: Command[]): () => void {
+  if (!list.length) return () => {}
+  commands = [...commands, ...list]
+  notify()
+  return () => {
+    commands = commands.filter(c => !list.includes(c))
+    notify()
+  }
+}
+
+/**
+ * Registered commands, most recently registered first (so page commands come before the
+ * app-wide ones). Stable between changes.
+ */
+export function getCommands(): Command[] {
+  if (visibleCache.source === commands) return visibleCache.list
+  const seen = new Set<string>()
+  const list = [...commands].reverse().filter(c => !seen.has(c.id) && !!seen.add(c.id))
+  visibleCache = { source: commands, list }
+  return list
+}
+
+/**
+ * Subscribes to registry changes.
+ * @returns Unsubscribe function.
+ */
+export function subscribeCommands(listener: () => void) {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
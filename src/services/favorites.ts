@@ -2,40 +2,94 @@
  * @file favorites.ts
  * @description Client helpers for interacting with the favorites API endpoints.
  */
-import { api } from './api'
+import { ApiError, api } from './api'
 import { getToken } from './auth'
+import { invalidateQueries } from './queryCache'
+import { enqueueWrite, findPendingWrite, findPendingWrites, registerReplayer, shouldQueue } from './outbox'
+import { parseFavoriteList } from './models'
+import { recommendationKeys } from './recommendationKeys'
+import type { Favorite } from '../types'
+
+const MOVIE_KEY = 'movieId' // backend expects movieId in the request body
 
 /**
- * Favorite entry returned by the backend. When favorites are expanded with movie data
- * the optional movie-related properties are populated.
+ * Query-cache keys for favorites data. Everything lives under `['favorites']`
+ * so one invalidation refreshes both the list and every `has` check.
  */
-export type Favorite = {
-  /** Unique identifier for the favorite. */
-  id: string
-  /** Identifier for the user that owns the favorite entry. */
-  user_id?: string
-  /** Identifier for the associated movie. */
-  movie_id?: string
-  /** ISO timestamp describing when the favorite was created. */
-  created_at?: string
-  /** Movie title attached to the favorite payload. */
-  title?: string
-  /** Movie year embedded in the favorite payload. */
-  year?: number
-  /** Movie genres as returned by the API. */
-  genres?: unknown
-  /** Optional poster URL included in the payload. */
-  poster_url?: string
-  /** Optional movie description available in the payload. */
-  description?: string
-  /** Aggregated rating value returned by the service. */
-  avg_rating?: number
+export const favoriteKeys = {
+  all: ['favorites'] as const,
+  list: () => ['favorites', 'list'] as const,
+  has: (movieId: string) => ['favorites', 'has', movieId] as const,
 }
 
-const MOVIE_KEY = 'movieId' // backend expects movieId in the request body
+/** Outbox target of the favorite writes for one movie. */
+export const favoriteTarget = (movieId: string) => `favorite:${movieId}`
+
+/** Favorites feed the recommendations, so both are refetched after a write. */
+function invalidate() {
+  invalidateQueries(favoriteKeys.all)
+  invalidateQueries(recommendationKeys.all)
+}
+
+/** Low-level writes, shared by the public methods and the outbox replay. */
+async function sendAdd(movieId: string) {
+  const res = await api.post<{ ok: boolean }>('/favorites', { [MOVIE_KEY]: movieId })
+  invalidate()
+  return res
+}
+
+async function sendRemove(movieId: string) {
+  let res: { removed: number }
+  try {
+    res = await api.del<{ removed: number }>(`/favorites/${movieId}`)
+  } catch (err) {
+    if (shouldQueue(err)) throw err
+    res = await api.del<{ removed: number }>(`/favorites?movieId=${encodeURIComponent(movieId)}`)
+  }
+  invalidate()
+  return res
+}
+
+/** Replayed removals of something that is already gone count as done. */
+async function replayRemove(movieId: string) {
+  try {
+    return await sendRemove(movieId)
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return invalidate()
+    throw err
+  }
+}
+
+// A rejected write leaves the server as it was: refetch so the UI shows the real state
+const refresh = invalidate
+registerReplayer('favorite:add', { send: ({ movieId }) => sendAdd(movieId), onFailed: refresh })
+registerReplayer('favorite:remove', { send: ({ movieId }) => replayRemove(movieId), onFailed: refresh })
+
+/**
+ * Sends a favorite write, or records it in the outbox when the network or the server fails.
+ * Writes also go to the outbox while an older one for the same movie is still unsent,
+ * so they reach the server in order.
+ */
+async function write(kind: 'favorite:add' | 'favorite:remove', movieId: string, send: () => Promise<unknown>) {
+  if (!(await findPendingWrite(favoriteTarget(movieId)))) {
+    try {
+      await send()
+      return { queued: false }
+    } catch (err) {
+      if (!shouldQueue(err)) throw err
+    }
+  }
+  await enqueueWrite(kind, { movieId }, favoriteTarget(movieId))
+  refresh()
+  return { queued: true }
+}
 
 /**
  * Service layer that wraps the favorites REST endpoints with auth guards.
+ * `add` and `remove` invalidate the cached favorites queries and the recommendations; when the
+ * network or the server fails they are kept in the outbox (see `outbox.ts`) and resolve with
+ * `queued: true`.
+ * `has` and `list` show unsent writes as if they had already been applied.
  */
 export const Favorites = {
   /**
@@ -44,7 +98,8 @@ export const Favorites = {
    */
   async add(movieId: string) {
     if (!getToken()) throw new Error('No autenticado')
-    return api.post<{ ok: boolean }>('/favorites', { [MOVIE_KEY]: movieId })
+    const { queued } = await write('favorite:add', movieId, () => sendAdd(movieId))
+    return { ok: true, queued }
   },
 
   /**
@@ -54,11 +109,11 @@ export const Favorites = {
    */
   async remove(movieId: string) {
     if (!getToken()) throw new Error('No autenticado')
-    try {
-      return await api.del<{ removed: number }>(`/favorites/${movieId}`)
-    } catch {
-      return api.del<{ removed: number }>(`/favorites?movieId=${encodeURIComponent(movieId)}`)
-    }
+    let removed = 0
+    const { queued } = await write('favorite:remove', movieId, async () => {
+      removed = (await sendRemove(movieId)).removed
+    })
+    return { removed, queued }
   },
 
   /**
@@ -68,24 +123,29 @@ export const Favorites = {
    */
   async has(movieId: string) {
     if (!getToken()) return false
+    const pending = await findPendingWrite(favoriteTarget(movieId))
+    if (pending?.status === 'pending') return pending.kind === 'favorite:add'
     try {
       const r = await api.get<{ exists: boolean }>(`/favorites/${movieId}`)
       return !!r.exists
     } catch {
-      const list = await api.get<Favorite[] | { items: Favorite[] }>('/favorites')
-      const items = Array.isArray(list) ? list : (list.items ?? [])
-      return items.some(f =>
-        f.id === movieId || (f as any).movie_id === movieId || (f as any).movieId === movieId
-      )
+      const items = parseFavoriteList(await api.get<unknown>('/favorites'))
+      return items.some(f => f.movieId === movieId)
     }
   },
 
   /**
    * Retrieves the favorites collection for the authenticated user.
-   * @returns Either the raw favorite array or an object wrapping items, depending on the backend.
+   * @returns Validated favorites; `movie` is set when the backend includes movie data.
    */
-  async list() {
+  async list(): Promise<Favorite[]> {
     if (!getToken()) return []
-    return api.get<Favorite[] | { items: Favorite[] }>('/favorites')
+    const [res, pending] = await Promise.all([
+      api.get<unknown>('/favorites'),
+      findPendingWrites('favorite:'),
+    ])
+    // Pending removals are hidden; pending additions have no movie data to show yet
+    const removing = new Set(pending.filter(w => w.status === 'pending' && w.kind === 'favorite:remove').map(w => String(w.payload.movieId)))
+    return parseFavoriteList(res).filter(f => !removing.has(f.movieId))
   },
 }
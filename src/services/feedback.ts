@@ -11,9 +11,10 @@ export const Feedback = {
     let screenshot_url: string | null = null
 
     try {
-      // Tomar userId si existe sesión (no es obligatorio)
+      // Tomar userId si existe sesión de Supabase (no es obligatorio).
+      // El id de nuestra API no es un uuid de Supabase: no sirve para `user_id` ni para el prefijo.
       const { data: u } = await supa.auth.getUser()
-      userId = u?.user?.id ?? null
+      userId = u?.user?.id || null
 
       // Subir screenshot SIEMPRE (con prefijo distinto si es anónimo)
       if (file) {
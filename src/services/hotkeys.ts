@@ -0,0 +1,220 @@
+/**
+ * @file hotkeys.ts
+ * @description Central registry of keyboard shortcuts. Components register bindings through
+ * `hooks/useHotkeys.ts`; a single `keydown` listener on `window` dispatches them.
+ *
+ * - Keys: `k`, `shift+a`, `mod+k` (⌘ on Apple devices, Ctrl elsewhere), `escape`, `space`,
+ *   `arrowleft`… Symbols are written as typed, without `shift` (`?`, not `shift+/`).
+ *   Sequences are space-separated: `g f` means G, then F within a second.
+ * - Scopes: `modal` bindings win over `page` ones, which win over `global` ones. While any
+ *   modal binding is registered, page and global shortcuts are paused.
+ * - Two bindings with the same keys in the same scope are a conflict: the newest wins and a
+ *   warning is logged. So is a binding that is a prefix of a sequence (`g` vs `g f`).
+ */
+
+/** Layer a shortcut belongs to (see file description). */
+export type HotkeyScope = 'global' | 'page' | 'modal'
+
+/**
+ * A keyboard shortcut.
+ */
+export type Hotkey = {
+  /** Key combination or sequence; several alternatives may be given (`['?', '¿']`). */
+  keys: string | string[]
+  /** What it does, shown in the shortcuts overlay. */
+  description: string
+  /** Return `false` to let the key through (default action, lower-priority bindings). */
+  handler: (e: KeyboardEvent) => void | boolean
+  /** Defaults to `global`. */
+  scope?: HotkeyScope
+  /** Also fire while typing in an input, textarea, select or contenteditable. */
+  allowInInputs?: boolean
+  /** Leave out of the overlay (e.g. focus-trap keys). */
+  hidden?: boolean
+}
+
+/** A registered shortcut with its normalized sequences. */
+export type ActiveHotkey = Hotkey & { id: number; scope: HotkeyScope; sequences: string[][] }
+
+/** Time allowed between the keys of a sequence (ms). */
+const SEQUENCE_TIMEOUT_MS = 1000
+
+const SCOPE_RANK: Record<HotkeyScope, number> = { modal: 2, page: 1, global: 0 }
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta'] as const
+const KEY_ALIASES: Record<string, string> = { esc: 'escape', ' ': 'space', spacebar: 'space', return: 'enter', del: 'delete', left: 'arrowleft', right: 'arrowright', up: 'arrowup', down: 'arrowdown' }
+
+const isApple = typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent)
+
+let nextId = 1
+let bindings: ActiveHotkey[] = []
+const listeners = new Set<() => void>()
+let pending: string[] = []
+let pendingTimer: number | undefined
+/** Last result of `getActiveHotkeys`, recomputed when `bindings` changes. */
+let visibleCache: { source: ActiveHotkey[]; list: ActiveHotkey[] } = { source: [], list: [] }
+
+/* ----------------------------- Normalization ----------------------------- */
+
+/** `Mod+Shift+K` → `ctrl+shift+k` (or `meta+shift+k` on Apple devices), modifiers in a fixed order. */
+function normalizeCombo(combo: string): string {
+  const parts = combo.toLowerCase().split('+')
+  // `shift++` → la tecla es "+"
+  const key = parts.pop() || '+'
+  const mods = new Set(parts.map(p => (p === 'mod' ? (isApple ? 'meta' : 'ctrl') : p === 'cmd' ? 'meta' : p === 'control' ? 'ctrl' : p === 'option' ? 'alt' : p)))
+  return [...MODIFIERS.filter(m => mods.has(m)), KEY_ALIASES[key] ?? key].join('+')
+}
+
+function parseSequences(keys: string | string[]): string[][] {
+  return (Array.isArray(keys) ? keys : [keys]).map(k => k.trim().split(/\s+/).map(normalizeCombo))
+}
+
+/**
+ * Combo of a keyboard event in the same form as {@link normalizeCombo}. Shift is dropped for
+ * symbols, since it is needed to type them (`?` is Shift+/ on many layouts).
+ */
+function comboOf(e: KeyboardEvent): string | null {
+  const raw = e.key
+  if (!raw || ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Dead'].includes(raw)) return null
+  const lower = raw.toLowerCase()
+  const key = KEY_ALIASES[lower] ?? lower
+  const symbol = raw.length === 1 && raw.toLowerCase() === raw.toUpperCase()
+  const mods: string[] = []
+  if (e.ctrlKey) mods.push('ctrl')
+  if (e.altKey) mods.push('alt')
+  if (e.shiftKey && !symbol) mods.push('shift')
+  if (e.metaKey) mods.push('meta')
+  return [...mods, key].join('+')
+}
+
+function isEditable(target: EventTarget | null) {
+  const el = target as HTMLElement | null
+  if (!el) return false
+  const tag = el.tagName?.toLowerCase()
+  return tag === 'input' || tag === 'textarea' || tag === 'select' || !!el.isContentEditable
+}
+
+const sameSeq = (a: string[], b: string[]) => a.length === b.length && a.every((k, i) => k === b[i])
+const isPrefix = (short: string[], long: string[]) => short.length < long.length && short.every((k, i) => k === long[i])
+
+/* -------------------------------- Dispatch -------------------------------- */
+
+/** Bindings that can fire right now: only the modal layer while a modal is open. */
+function usable(): ActiveHotkey[] {
+  const modal = bindings.some(b => b.scope === 'modal')
+  return modal ? bindings.filter(b => b.scope === 'modal') : bindings
+}
+
+/** Highest scope first, newest first within a scope. */
+function byPriority(a: ActiveHotkey, b: ActiveHotkey) {
+  return SCOPE_RANK[b.scope] - SCOPE_RANK[a.scope] || b.id - a.id
+}
+
+function resetPending() {
+  pending = []
+  window.clearTimeout(pendingTimer)
+}
+
+function onKeyDown(e: KeyboardEvent) {
+  if (e.defaultPrevented || e.isComposing) return
+  const combo = comboOf(e)
+  if (!combo) return
+  const editable = isEditable(e.target)
+  const candidates = usable().filter(b => !editable || b.allowInInputs).sort(byPriority)
+
+  // Continúa la secuencia en curso; si no encaja con ninguna, se prueba la tecla sola
+  for (const typed of pending.length ? [[...pending, combo], [combo]] : [[combo]]) {
+    const matches = candidates.filter(b => b.sequences.some(s => sameSeq(s, typed)))
+    if (matches.length) {
+      resetPending()
+      if (matches.some(b => b.handler(e) !== false)) e.preventDefault()
+      return
+    }
+    if (candidates.some(b => b.sequences.some(s => isPrefix(typed, s)))) {
+      resetPending()
+      pending = typed
+      pendingTimer = window.setTimeout(resetPending, SEQUENCE_TIMEOUT_MS)
+      return
+    }
+  }
+  resetPending()
+}
+
+/* -------------------------------- Registry -------------------------------- */
+
+function notify() {
+  listeners.forEach(l => l())
+}
+
+function warnConflicts(added: ActiveHotkey) {
+  for (const other of bindings) {
+    if (other === added || other.scope !== added.scope) continue
+    for (const a of added.sequences) {
+      for (const b of other.sequences) {
+        if (sameSeq(a, b) || isPrefix(a, b) || isPrefix(b, a)) {
+          console.warn(`Atajo de teclado en conflicto (${added.scope}): «${a.join(' ')}» de "${added.description}" y «${b.join(' ')}» de "${other.description}".`)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Registers shortcuts until the returned function is called.
+ * @param list - Shortcuts to add.
+ * @returns Unregister function.
+ */
+export function registerHotkeys(list: Hotkey[]): () => void {
+  if (!list.length) return () => {}
+  const added = list.map(h => ({ ...h, id: nextId++, scope: h.scope ?? 'global', sequences: parseSequences(h.keys) }))
+  if (!bindings.length) window.addEventListener('keydown', onKeyDown)
+  bindings = [...bindings, ...added]
+  added.forEach(warnConflicts)
+  notify()
+  return () => {
+    bindings = bindings.filter(b => !added.includes(b))
+    if (!bindings.length) {
+      window.removeEventListener('keydown', onKeyDown)
+      resetPending()
+    }
+    notify()
+  }
+}
+
+/**
+ * Shortcuts that can currently fire and are meant to be listed, highest scope first.
+ * Shadowed bindings (same keys in a lower scope) are left out. Stable between changes.
+ */
+export function getActiveHotkeys(): ActiveHotkey[] {
+  if (visibleCache.source === bindings) return visibleCache.list
+  const seen = new Set<string>()
+  const list = [...usable()].sort(byPriority).filter(b => {
+    const keys = b.sequences.map(s => s.join(' '))
+    const shadowed = keys.every(k => seen.has(k))
+    keys.forEach(k => seen.add(k))
+    return !shadowed && !b.hidden
+  })
+  visibleCache = { source: bindings, list }
+  return list
+}
+
+/**
+ * Subscribes to registry changes.
+ * @returns Unsubscribe function.
+ */
+export function subscribeHotkeys(listener: () => void) {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/**
+ * Human-readable form of a normalized sequence, one string per key
+ * (`['ctrl+k']` → `['Ctrl K']`, `['g', 'f']` → `['G', 'F']`).
+ */
+export function describeSequence(sequence: string[]): string[] {
+  const names: Record<string, string> = {
+    ctrl: 'Ctrl', alt: isApple ? '⌥' : 'Alt', shift: '⇧', meta: isApple ? '⌘' : 'Meta',
+    escape: 'Esc', space: 'Espacio', enter: 'Enter', tab: 'Tab',
+    arrowleft: '←', arrowright: '→', arrowup: '↑', arrowdown: '↓',
+  }
+  return sequence.map(combo => combo.split('+').map(p => names[p] ?? p.toUpperCase()).join(' '))
+}
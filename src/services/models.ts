@@ -0,0 +1,423 @@
+/**
+ * @file models.ts
+ * @description Runtime validation and normalization of API payloads into the canonical
+ * model of `types/index.ts`. Services call these parsers on every response, so components
+ * only ever see typed, consistent objects: snake_case and legacy field names
+ * (`_id`, `movie_id`, `release_date`, `runtime`, `overview`, `vote_average`…) are mapped here
+ * and nowhere else. Payloads that cannot be made sense of throw a {@link SchemaError}.
+ */
+import type { Favorite, Movie, MovieSource, Rating, RatingSummary, SubtitleTrack, User, WatchProgress } from '../types'
+
+/**
+ * Error thrown when a response does not match the expected shape.
+ * `path` points at the offending field, e.g. `movies[3].title`.
+ */
+export class SchemaError extends Error {
+  /** Location of the offending value inside the payload. */
+  readonly path: string
+  /** The value that was received. */
+  readonly received: unknown
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Respuesta inesperada del servidor: «${path}» debería ser ${expected} y llegó ${describe(received)}.`)
+    this.name = 'SchemaError'
+    this.path = path
+    this.received = received
+  }
+}
+
+function describe(v: unknown) {
+  if (v === undefined) return 'vacío'
+  if (v === null) return 'null'
+  if (Array.isArray(v)) return 'una lista'
+  if (typeof v === 'string') return `el texto "${v.length > 30 ? `${v.slice(0, 30)}…` : v}"`
+  return typeof v === 'object' ? 'un objeto' : `${typeof v} ${String(v)}`
+}
+
+/* -------------------------------- Readers -------------------------------- */
+
+type Raw = Record<string, unknown>
+
+function record(v: unknown, path: string): Raw {
+  if (v && typeof v === 'object' && !Array.isArray(v)) return v as Raw
+  throw new SchemaError(path, 'un objeto', v)
+}
+
+/** First key of `keys` holding a usable value (not null/undefined/empty string). */
+function pick(o: Raw, keys: string[]): [key: string, value: unknown] | undefined {
+  for (const k of keys) {
+    const v = o[k]
+    if (v !== undefined && v !== null && v !== '') return [k, v]
+  }
+  return undefined
+}
+
+function text(o: Raw, keys: string[], path: string): string | undefined {
+  const hit = pick(o, keys)
+  if (!hit) return undefined
+  const [k, v] = hit
+  if (typeof v === 'string') return v.trim() || undefined
+  if (typeof v === 'number') return String(v)
+  throw new SchemaError(`${path}.${k}`, 'texto', v)
+}
+
+/** A number optionally followed by one unit, as in `"120"` or `"120 min"`. */
+const NUMBER_WITH_UNIT = /^\s*(-?\d+(?:\.\d+)?)\s*(?:[a-zA-Z]+\.?)?\s*$/
+
+/**
+ * Number parsing: numbers and numeric strings count, also with a unit (`"120 min"`);
+ * `"2h 10m"` or `"N/A"` do not.
+ */
+function toNumber(v: unknown) {
+  const match = typeof v === 'string' ? NUMBER_WITH_UNIT.exec(v) : null
+  const n = typeof v === 'number' ? v : match ? Number(match[1]) : NaN
+  return Number.isFinite(n) ? n : undefined
+}
+
+/**
+ * Optional number: missing or non-numeric values (`runtime: "N/A"`) become `undefined`
+ * instead of rejecting the whole object.
+ */
+function num(o: Raw, keys: string[]): number | undefined {
+  return toNumber(pick(o, keys)?.[1])
+}
+
+/** Required number: missing or non-numeric values are a {@link SchemaError}. */
+function requiredNum(o: Raw, keys: string[], path: string): number {
+  const hit = pick(o, keys)
+  const n = toNumber(hit?.[1])
+  if (n === undefined) throw new SchemaError(`${path}.${hit?.[0] ?? keys[0]}`, 'un número', hit?.[1])
+  return n
+}
+
+function identifier(o: Raw, keys: string[], path: string): string {
+  const hit = pick(o, keys)
+  if (hit && (typeof hit[1] === 'string' || typeof hit[1] === 'number')) return String(hit[1])
+  throw new SchemaError(`${path}.${keys[0]}`, 'un identificador', hit?.[1])
+}
+
+/** Accepts `['Drama']`, `[{ name: 'Drama' }]` or `"Drama, Crimen"`. */
+function stringList(o: Raw, keys: string[], path: string): string[] {
+  const hit = pick(o, keys)
+  if (!hit) return []
+  const [k, v] = hit
+  if (typeof v === 'string') return v.split(',').map(s => s.trim()).filter(Boolean)
+  if (!Array.isArray(v)) throw new SchemaError(`${path}.${k}`, 'una lista', v)
+  return v.map((x, i) => {
+    if (typeof x === 'string') return x.trim()
+    const name = x && typeof x === 'object' ? (x as Raw).name ?? (x as Raw).label : undefined
+    if (typeof name === 'string') return name.trim()
+    throw new SchemaError(`${path}.${k}[${i}]`, 'texto', x)
+  }).filter(Boolean)
+}
+
+/** Unwraps `{ items }`, `{ movies }`, `{ data }`… into the array they carry. */
+function listOf(raw: unknown, keys: string[], path: string): unknown[] {
+  if (Array.isArray(raw)) return raw
+  const o = record(raw, path)
+  for (const k of keys) if (Array.isArray(o[k])) return o[k] as unknown[]
+  throw new SchemaError(path, 'una lista', raw)
+}
+
+/**
+ * Parses every item, skipping (and logging) the malformed ones so a single bad entry
+ * does not take the whole list down.
+ */
+function parseEach<T>(items: unknown[], path: string, parse: (raw: unknown, path: string) => T): T[] {
+  const out: T[] = []
+  items.forEach((raw, i) => {
+    try {
+      out.push(parse(raw, `${path}[${i}]`))
+    } catch (err) {
+      if (!(err instanceof SchemaError)) throw err
+      console.warn(err.message)
+    }
+  })
+  return out
+}
+
+/* --------------------------------- Movies -------------------------------- */
+
+function ratingOf(o: Raw, path: string): number | undefined {
+  // vote_average (TMDB) is 0-10; the rest are usually 0-5 but some backends send 0-10 too
+  const tenScale = num(o, ['vote_average'])
+  let r = num(o, ['avgRating', 'avg_rating', 'averageRating', 'rating', 'score'])
+  if (r === undefined && tenScale !== undefined) r = tenScale / 2
+  if (r === undefined) return undefined
+  if (r > 5) r = r / 2
+  return Math.max(0, Math.min(5, r))
+}
+
+/** Display name of a language code in Spanish (`en` → `Inglés`). */
+function languageName(lang: string) {
+  try {
+    const name = new Intl.DisplayNames(['es'], { type: 'language' }).of(lang)
+    if (name && name !== lang) return name.charAt(0).toUpperCase() + name.slice(1)
+  } catch {
+    /* invalid code or no Intl.DisplayNames */
+  }
+  return lang.toUpperCase()
+}
+
+/**
+ * Accepts track objects (`{ url|src, lang|srclang|language, label }`) or bare URLs,
+ * whose language is read from the file name (`movie.es.vtt`, `movie_en-US.vtt`).
+ */
+function subtitlesOf(s: Raw, path: string): SubtitleTrack[] | undefined {
+  const hit = pick(s, ['subtitles', 'tracks'])
+  if (!hit) return undefined
+  if (!Array.isArray(hit[1])) throw new SchemaError(`${path}.${hit[0]}`, 'una lista', hit[1])
+  return hit[1].map((raw, i) => {
+    const p = `${path}.${hit[0]}[${i}]`
+    const t: Raw = typeof raw === 'string' ? { url: raw } : record(raw, p)
+    const url = text(t, ['url', 'src', 'file'], p)
+    if (!url) throw new SchemaError(`${p}.url`, 'una URL', t.url)
+    const lang = text(t, ['lang', 'srclang', 'language'], p)
+      ?? /[._-]([a-z]{2,3}(?:-[a-z]{2})?)\.vtt(?:\?|$)/i.exec(url)?.[1]
+      ?? 'und'
+    return { url, lang, label: text(t, ['label', 'name'], p) ?? languageName(lang) }
+  })
+}
+
+function sourcesOf(o: Raw, path: string): MovieSource[] | undefined {
+  const hit = pick(o, ['sources'])
+  if (!hit) return undefined
+  if (!Array.isArray(hit[1])) throw new SchemaError(`${path}.sources`, 'una lista', hit[1])
+  return hit[1].map((raw, i) => {
+    const p = `${path}.sources[${i}]`
+    const s = record(raw, p)
+    const url = text(s, ['url', 'src', 'file'], p)
+    if (!url) throw new SchemaError(`${p}.url`, 'una URL', s.url)
+    return {
+      label: text(s, ['label', 'quality', 'name'], p) ?? `Fuente ${i + 1}`,
+      url,
+      subtitles: subtitlesOf(s, p),
+    }
+  })
+}
+
+/**
+ * Validates and normalizes one movie.
+ * @param raw - Movie as sent by the API (any of its historical shapes).
+ * @param path - Location used in error messages.
+ * @throws SchemaError when the id or title is missing or a field has the wrong type.
+ */
+export function parseMovie(raw: unknown, path = 'movie'): Movie {
+  const o = record(raw, path)
+  const title = text(o, ['title', 'name', 'original_title'], path)
+  if (!title) throw new SchemaError(`${path}.title`, 'texto', o.title)
+  const releaseDate = text(o, ['releaseDate', 'release_date'], path)
+  const images = o.images && typeof o.images === 'object' ? (o.images as Raw) : {}
+  const year = num(o, ['year', 'release_year']) ?? (releaseDate ? parseInt(releaseDate.slice(0, 4), 10) || undefined : undefined)
+
+  return {
+    id: identifier(o, ['id', '_id', 'movieId', 'movie_id', 'slug'], path),
+    title,
+    year,
+    releaseDate,
+    genres: stringList(o, ['genres', 'genre'], path),
+    posterUrl: text(o, ['posterUrl', 'poster_url', 'poster', 'image', 'cover', 'thumbnail'], path) ?? text(images, ['poster'], `${path}.images`),
+    backdropUrl: text(o, ['backdropUrl', 'backdrop_url', 'backdrop'], path),
+    description: text(o, ['description', 'overview', 'synopsis', 'plot', 'summary'], path),
+    durationMin: num(o, ['durationMin', 'duration_min', 'runtime', 'duration']),
+    avgRating: ratingOf(o, path),
+    streamUrl: text(o, ['streamUrl', 'stream_url', 'videoUrl', 'video_url'], path),
+    sources: sourcesOf(o, path),
+    subtitles: subtitlesOf(o, path),
+    userRating: num(o, ['userRating', 'user_rating', 'myRating']),
+  }
+}
+
+/**
+ * Validates a list of movies in any of the envelopes `/movies` has used
+ * (bare array, `{ items }`, `{ movies }`, `{ data }`, `{ results }`).
+ * Malformed movies are skipped with a console warning.
+ * @param raw - Response body.
+ * @param path - Location used in error messages.
+ * @throws SchemaError when no list can be found.
+ */
+export function parseMovieList(raw: unknown, path = 'movies'): Movie[] {
+  return parseEach(listOf(raw, ['items', 'movies', 'data', 'results'], path), path, parseMovie)
+}
+
+/* ---------------------------------- Users --------------------------------- */
+
+/**
+ * Validates and normalizes a user or profile. Also reads Supabase's `user_metadata`.
+ * @param raw - User payload.
+ * @param path - Location used in error messages.
+ * @throws SchemaError when the id is missing or a field has the wrong type.
+ */
+export function parseUser(raw: unknown, path = 'user'): User {
+  const o = record(raw, path)
+  const meta = o.user_metadata && typeof o.user_metadata === 'object' ? (o.user_metadata as Raw) : {}
+  const metaPath = `${path}.user_metadata`
+  return {
+    id: identifier(o, ['id', '_id', 'user_id', 'userId', 'sub'], path),
+    name: text(o, ['name', 'full_name', 'fullName'], path) ?? text(meta, ['name', 'full_name'], metaPath) ?? '',
+    apellido: text(o, ['apellido', 'last_name', 'lastName'], path) ?? text(meta, ['apellido'], metaPath),
+    email: text(o, ['email'], path) ?? '',
+    age: num(o, ['age', 'edad']) ?? num(meta, ['age']),
+    birthdate: text(o, ['birthdate', 'birth_date', 'dob'], path) ?? text(meta, ['birthdate'], metaPath),
+    avatarUrl: text(o, ['avatarUrl', 'avatar_url', 'avatar'], path),
+    createdAt: text(o, ['createdAt', 'created_at'], path),
+    updatedAt: text(o, ['updatedAt', 'updated_at'], path),
+  }
+}
+
+/* -------------------------------- Favorites ------------------------------- */
+
+/**
+ * Validates and normalizes a favorite. Backends either nest the movie (`movie`),
+ * flatten its fields into the favorite, or send only the ids.
+ * @param raw - Favorite payload.
+ * @param path - Location used in error messages.
+ */
+export function parseFavorite(raw: unknown, path = 'favorite'): Favorite {
+  const o = record(raw, path)
+  const nested = o.movie && typeof o.movie === 'object' ? (o.movie as Raw) : null
+  const movieId = nested
+    ? identifier({ ...nested, movieId: o.movieId ?? o.movie_id }, ['movieId', 'id', '_id', 'movie_id'], `${path}.movie`)
+    : identifier(o, ['movieId', 'movie_id', 'id', '_id'], path)
+  const movie = nested
+    ? parseMovie({ ...nested, id: movieId }, `${path}.movie`)
+    : pick(o, ['title', 'name']) ? parseMovie({ ...o, id: movieId }, path) : undefined
+
+  return {
+    id: text(o, ['id', '_id'], path) ?? movieId,
+    movieId,
+    userId: text(o, ['userId', 'user_id'], path),
+    createdAt: text(o, ['createdAt', 'created_at'], path),
+    movie,
+  }
+}
+
+/**
+ * Validates a favorites list (bare array or `{ items }`); malformed entries are skipped.
+ * @param raw - Response body.
+ * @param path - Location used in error messages.
+ */
+export function parseFavoriteList(raw: unknown, path = 'favorites'): Favorite[] {
+  return parseEach(listOf(raw, ['items', 'favorites', 'data'], path), path, parseFavorite)
+}
+
+/* -------------------------------- Progress -------------------------------- */
+
+/** Share of the movie after which it counts as watched (credits usually fill the rest). */
+export const WATCHED_RATIO = 0.9
+
+/** @returns true once `position` is past {@link WATCHED_RATIO} of `duration`. */
+export function isWatched(position: number, duration: number) {
+  return duration > 0 && position >= duration * WATCHED_RATIO
+}
+
+/**
+ * Validates and normalizes a playback position. Like favorites, the movie may be nested.
+ * `watched` is derived from the position when the API does not send it.
+ * @param raw - Progress payload.
+ * @param path - Location used in error messages.
+ */
+export function parseProgress(raw: unknown, path = 'progress'): WatchProgress {
+  const o = record(raw, path)
+  const nested = o.movie && typeof o.movie === 'object' ? (o.movie as Raw) : null
+  const movieId = nested
+    ? identifier({ ...nested, movieId: o.movieId ?? o.movie_id }, ['movieId', 'id', '_id', 'movie_id'], `${path}.movie`)
+    : identifier(o, ['movieId', 'movie_id', 'id', '_id'], path)
+  const position = Math.max(0, num(o, ['position', 'seconds', 'currentTime', 'current_time']) ?? 0)
+  const duration = Math.max(0, num(o, ['duration', 'length']) ?? 0)
+  const flag = pick(o, ['watched', 'completed', 'finished'])?.[1]
+  return {
+    movieId,
+    position,
+    duration,
+    watched: flag !== undefined ? flag === true || flag === 'true' : isWatched(position, duration),
+    updatedAt: text(o, ['updatedAt', 'updated_at', 'lastWatchedAt', 'last_watched_at'], path) ?? new Date(0).toISOString(),
+    movie: nested ? parseMovie({ ...nested, id: movieId }, `${path}.movie`) : undefined,
+  }
+}
+
+/**
+ * Validates a progress list (bare array or `{ items }`); malformed entries are skipped.
+ * @param raw - Response body.
+ * @param path - Location used in error messages.
+ */
+export function parseProgressList(raw: unknown, path = 'progress'): WatchProgress[] {
+  return parseEach(listOf(raw, ['items', 'progress', 'data'], path), path, parseProgress)
+}
+
+/* -------------------------------- Ratings --------------------------------- */
+
+/** Scores outside 0-5 are taken as 0-10 (some backends) and halved. */
+function starsOf(o: Raw, path: string): number {
+  const n = requiredNum(o, ['stars', 'rating', 'score', 'value'], path)
+  return Math.max(0, Math.min(5, n > 5 ? n / 2 : n))
+}
+
+function flag(o: Raw, keys: string[]): boolean | undefined {
+  const v = pick(o, keys)?.[1]
+  return v === undefined ? undefined : v === true || v === 'true' || v === 1
+}
+
+/**
+ * Validates and normalizes a rating or review. The author and the movie may be nested
+ * (`user`, `movie`) or flattened (`userId`, `userName`, `movieId`).
+ * @param raw - Rating payload.
+ * @param path - Location used in error messages.
+ */
+export function parseRating(raw: unknown, path = 'rating'): Rating {
+  const o = record(raw, path)
+  const user = o.user && typeof o.user === 'object' ? (o.user as Raw) : null
+  const movie = o.movie && typeof o.movie === 'object' ? (o.movie as Raw) : null
+  const movieId = identifier({ ...o, movie: movie ? movie.id ?? movie._id : o.movie }, ['movieId', 'movie_id', 'movie'], path)
+  const userId = user
+    ? identifier(user, ['id', '_id'], `${path}.user`)
+    : identifier(o, ['userId', 'user_id', 'user'], path)
+  const userName = user
+    ? [text(user, ['name', 'nombre', 'username'], `${path}.user`), text(user, ['apellido', 'lastName'], `${path}.user`)].filter(Boolean).join(' ') || undefined
+    : text(o, ['userName', 'user_name', 'author', 'authorName'], path)
+  return {
+    id: text(o, ['id', '_id'], path) ?? `${movieId}:${userId}`,
+    movieId,
+    userId,
+    stars: starsOf(o, path),
+    comment: text(o, ['comment', 'review', 'text', 'body'], path),
+    userName,
+    createdAt: text(o, ['createdAt', 'created_at'], path),
+    updatedAt: text(o, ['updatedAt', 'updated_at'], path),
+    helpfulCount: num(o, ['helpfulCount', 'helpful_count', 'helpfulVotes', 'likes']),
+    votedHelpful: flag(o, ['votedHelpful', 'voted_helpful', 'markedHelpful']),
+  }
+}
+
+/**
+ * Validates a ratings list (bare array, `{ items }`, `{ reviews }`…); malformed entries are skipped.
+ * @param raw - Response body.
+ * @param path - Location used in error messages.
+ */
+export function parseRatingList(raw: unknown, path = 'ratings'): Rating[] {
+  return parseEach(listOf(raw, ['items', 'ratings', 'reviews', 'data'], path), path, parseRating)
+}
+
+/**
+ * Validates a ratings summary. The histogram may come as an array (1 to 5 stars)
+ * or as an object keyed by star value (`{ "5": 12, "4": 3 }`); half stars are rounded up.
+ * @param raw - Summary payload.
+ * @param path - Location used in error messages.
+ */
+export function parseRatingSummary(raw: unknown, path = 'summary'): RatingSummary {
+  const o = record(raw, path)
+  const hit = pick(o, ['histogram', 'distribution', 'counts'])
+  const histogram = [0, 0, 0, 0, 0]
+  if (Array.isArray(hit?.[1])) {
+    (hit[1] as unknown[]).slice(0, 5).forEach((v, i) => { histogram[i] = Number(v) || 0 })
+  } else if (hit) {
+    for (const [k, v] of Object.entries(record(hit[1], `${path}.${hit[0]}`))) {
+      const star = Math.ceil(Number(k))
+      if (star >= 1 && star <= 5) histogram[star - 1] += Number(v) || 0
+    }
+  }
+  const count = num(o, ['count', 'total', 'totalRatings']) ?? histogram.reduce((a, b) => a + b, 0)
+  const average = num(o, ['average', 'avg', 'avgRating', 'mean'])
+    ?? (count ? histogram.reduce((sum, n, i) => sum + n * (i + 1), 0) / count : 0)
+  return { average: Math.max(0, Math.min(5, average > 5 ? average / 2 : average)), count, histogram }
+}
@@ -0,0 +1,67 @@
+/**
+ * @file movieSearch.ts
+ * @description Client-side movie search. Builds a {@link SearchIndex} from the whole catalog
+ * and keeps a compact copy of the catalog in localStorage so search keeps working offline.
+ * Pages read it through the query cache under `movieKeys.search()` with {@link SEARCH_STALE_MS}.
+ */
+import { Movies } from './movies'
+import type { Movie } from '../types'
+import { createSearchIndex, type SearchIndex } from '../utils/searchIndex'
+
+/** Catalog plus its index. */
+export type MovieSearch = {
+  /** Every movie, in server order. */
+  catalog: Movie[]
+  index: SearchIndex<Movie>
+  /** True when built from the stored copy because the network failed. */
+  offline: boolean
+}
+
+/** Holds already-normalized movies; change the key if their stored shape changes. */
+const STORAGE_KEY = 'movie-search-catalog'
+/** How long a built index is reused before asking the server again. */
+export const SEARCH_STALE_MS = 5 * 60_000
+
+function build(catalog: Movie[], offline: boolean): MovieSearch {
+  const index = createSearchIndex(catalog, m => ({
+    title: m.title,
+    genres: m.genres.join(', '),
+    description: m.description ?? '',
+  }))
+  return { catalog, index, offline }
+}
+
+function store(catalog: Movie[]) {
+  try {
+    // Only what listing, search and cards need: keeps the copy small.
+    const compact = catalog.map(({ sources: _sources, streamUrl: _streamUrl, ...rest }) => rest)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(compact))
+  } catch {
+    /* noop: quota exceeded or storage disabled */
+  }
+}
+
+function restore(): Movie[] | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    return Array.isArray(raw) ? (raw as Movie[]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Loads the whole catalog and builds its search index.
+ * Falls back to the copy stored by the last successful load when the request fails.
+ */
+export async function loadMovieSearch(): Promise<MovieSearch> {
+  try {
+    const res = await Movies.list({})
+    store(res.items)
+    return build(res.items, false)
+  } catch (err) {
+    const stored = restore()
+    if (stored) return build(stored, true)
+    throw err
+  }
+}
@@ -2,24 +2,370 @@
  * @file movies.ts
  * @description Client helpers for listing and retrieving movies from the API.
  */
-import { api } from './api'
-import type { Movie, ID } from '../types'
+import { ApiError, api, type RequestOptions } from './api'
+import { parseMovie, parseMovieList } from './models'
+import type { Movie, ID, Paginated } from '../types'
+import { slugify } from '../utils/slug'
+
+/** Fields the catalog can be sorted by. */
+export type MovieSortField = 'title' | 'year' | 'avgRating'
+
+/**
+ * Typed query accepted by {@link Movies.list}. Every field is optional.
+ */
+export type MovieQuery = {
+  /** Free-text search. */
+  q?: string
+  /** 1-based page number (default 1). */
+  page?: number
+  /** Page size. When omitted the whole result set is returned as a single page. */
+  pageSize?: number
+  /** Sort field. */
+  sort?: MovieSortField
+  /** Sort direction (default `asc` for title, `desc` otherwise). */
+  order?: 'asc' | 'desc'
+  /** Only movies having at least one of these genres. */
+  genres?: string[]
+  /** Minimum release year (inclusive). */
+  yearFrom?: number
+  /** Maximum release year (inclusive). */
+  yearTo?: number
+  /** Minimum average rating (0-5). */
+  minRating?: number
+  /** Minimum duration in minutes (inclusive). */
+  minDuration?: number
+  /** Maximum duration in minutes (inclusive). */
+  maxDuration?: number
+}
+
+/** A facet value and how many movies would match if it were selected. */
+export type FacetCount<T = string> = { value: T; count: number }
+
+/**
+ * Counts per facet for a result set. Each facet is counted against every *other*
+ * active filter, so selecting a value never hides its siblings.
+ */
+export type MovieFacets = {
+  /** Every genre in the result set, most frequent first. */
+  genres: FacetCount[]
+  /** Movies per decade (`value` is the first year of the decade), oldest first. */
+  decades: FacetCount<number>[]
+  /** Movies rated at least `value` stars, for 1..4. */
+  ratings: FacetCount<number>[]
+  /** Movies per duration bucket. */
+  durations: FacetCount<DurationBucket>[]
+  /** Year span of the result set, used as input bounds. */
+  yearBounds: { min: number; max: number } | null
+}
+
+/** Duration range preset shown by the browse page. */
+export type DurationBucket = { label: string; min?: number; max?: number }
+
+/** Presets for the duration facet, in minutes. */
+export const DURATION_BUCKETS: DurationBucket[] = [
+  { label: 'Menos de 90 min', max: 89 },
+  { label: '90 – 120 min', min: 90, max: 120 },
+  { label: 'Más de 120 min', min: 121 },
+]
+
+/**
+ * Serializes a {@link MovieQuery} into the query string understood by `/movies`.
+ * @param query - Typed query.
+ * @returns Query string including the leading `?`, or an empty string.
+ */
+function toSearch(query: MovieQuery) {
+  const p = new URLSearchParams()
+  if (query.q?.trim()) p.set('q', query.q.trim())
+  if (query.pageSize) {
+    p.set('page', String(query.page ?? 1))
+    p.set('pageSize', String(query.pageSize))
+  }
+  if (query.sort) {
+    p.set('sort', query.sort)
+    p.set('order', query.order ?? defaultOrder(query.sort))
+  }
+  if (query.genres?.length) p.set('genres', query.genres.join(','))
+  if (query.yearFrom != null) p.set('yearFrom', String(query.yearFrom))
+  if (query.yearTo != null) p.set('yearTo', String(query.yearTo))
+  if (query.minRating != null) p.set('minRating', String(query.minRating))
+  if (query.minDuration != null) p.set('minDuration', String(query.minDuration))
+  if (query.maxDuration != null) p.set('maxDuration', String(query.maxDuration))
+  const s = p.toString()
+  return s ? `?${s}` : ''
+}
+
+function defaultOrder(sort: MovieSortField): 'asc' | 'desc' {
+  return sort === 'title' ? 'asc' : 'desc'
+}
+
+/** Filter groups of a {@link MovieQuery}; facets are counted with their own group disabled. */
+type FilterGroup = 'genres' | 'year' | 'rating' | 'duration'
+
+/**
+ * Plain-text match for `q`, as a basic server search would do it: every word of `q` must
+ * appear in the title, genres or description (case and accents ignored).
+ * @param m - Movie to test.
+ * @param q - Search text.
+ */
+function matchesText(m: Movie, q: string) {
+  const words = slugify(q).split('-').filter(Boolean)
+  if (!words.length) return true
+  const haystack = slugify([m.title, m.genres.join(' '), m.description ?? ''].join(' '))
+  return words.every(w => haystack.includes(w))
+}
+
+/**
+ * Tells whether `m` passes every filter in `query` except those of group `skip`.
+ * The search text always applies.
+ * @param m - Movie to test.
+ * @param query - Active filters.
+ * @param skip - Filter group to ignore.
+ */
+function matches(m: Movie, query: MovieQuery, skip?: FilterGroup) {
+  if (query.q && !matchesText(m, query.q)) return false
+  if (skip !== 'year') {
+    const y = m.year
+    if (query.yearFrom != null && (y === undefined || y < query.yearFrom)) return false
+    if (query.yearTo != null && (y === undefined || y > query.yearTo)) return false
+  }
+  if (skip !== 'rating' && query.minRating != null && (m.avgRating ?? 0) < query.minRating) return false
+  if (skip !== 'duration' && (query.minDuration != null || query.maxDuration != null)) {
+    const d = m.durationMin
+    if (d === undefined) return false
+    if (query.minDuration != null && d < query.minDuration) return false
+    if (query.maxDuration != null && d > query.maxDuration) return false
+  }
+  if (skip !== 'genres' && query.genres?.length) {
+    const want = query.genres.map(g => g.toLowerCase())
+    if (!m.genres.some(g => want.includes(g.toLowerCase()))) return false
+  }
+  return true
+}
+
+/**
+ * Applies the search text, filters, sorting and paging locally. Used when the backend ignores the
+ * query parameters and answers without pagination metadata (see `toPaginated`),
+ * and by the browse page to filter an already-loaded result set.
+ * @param all - Every movie returned by the server.
+ * @param query - Typed query to honour.
+ */
+export function applyMovieQuery(all: Movie[], query: MovieQuery): Paginated<Movie> {
+  let list = all.filter(m => matches(m, query))
+
+  if (query.sort) {
+    const dir = (query.order ?? defaultOrder(query.sort)) === 'asc' ? 1 : -1
+    const key = query.sort
+    list = [...list].sort((a, b) => {
+      if (key === 'title') return dir * String(a.title ?? '').localeCompare(String(b.title ?? ''), 'es')
+      const va = key === 'year' ? (a.year ?? 0) : (a.avgRating ?? 0)
+      const vb = key === 'year' ? (b.year ?? 0) : (b.avgRating ?? 0)
+      return dir * (va - vb)
+    })
+  }
+
+  const total = list.length
+  const pageSize = query.pageSize || Math.max(1, total)
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+  const page = Math.min(Math.max(1, query.page ?? 1), totalPages)
+  const items = query.pageSize ? list.slice((page - 1) * pageSize, page * pageSize) : list
+  return { items, page, pageSize, total, totalPages }
+}
+
+/**
+ * Computes facet counts for `all` under the filters in `query`.
+ * @param all - Result set to facet (typically every movie matching the search text).
+ * @param query - Active filters.
+ */
+export function computeFacets(all: Movie[], query: MovieQuery): MovieFacets {
+  const genres = new Map<string, FacetCount>()
+  for (const m of all) {
+    if (!matches(m, query, 'genres')) continue
+    for (const g of m.genres) {
+      const key = g.toLowerCase()
+      const f = genres.get(key)
+      if (f) f.count++
+      else genres.set(key, { value: g, count: 1 })
+    }
+  }
+
+  const decades = new Map<number, number>()
+  let min = Infinity
+  let max = -Infinity
+  for (const m of all) {
+    const y = m.year
+    if (y === undefined) continue
+    min = Math.min(min, y)
+    max = Math.max(max, y)
+    if (!matches(m, query, 'year')) continue
+    const d = Math.floor(y / 10) * 10
+    decades.set(d, (decades.get(d) ?? 0) + 1)
+  }
+
+  const byRating = all.filter(m => matches(m, query, 'rating'))
+  const byDuration = all.filter(m => matches(m, query, 'duration'))
+
+  return {
+    genres: [...genres.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'es')),
+    decades: [...decades.entries()].sort((a, b) => a[0] - b[0]).map(([value, count]) => ({ value, count })),
+    ratings: [1, 2, 3, 4].map(value => ({ value, count: byRating.filter(m => (m.avgRating ?? 0) >= value).length })),
+    durations: DURATION_BUCKETS.map(b => ({
+      value: b,
+      count: byDuration.filter(m => {
+        const d = m.durationMin
+        return d !== undefined && (b.min == null || d >= b.min) && (b.max == null || d <= b.max)
+      }).length,
+    })),
+    yearBounds: Number.isFinite(min) ? { min, max } : null,
+  }
+}
+
+/**
+ * Size of the whole catalog, as last sent by a backend that answers without pagination metadata.
+ * A search answered with that many movies means the server ignored `q`.
+ */
+let catalogSize: number | undefined
+
+/** True when `query` narrows the catalog (search text or any filter). */
+function narrows(query: MovieQuery) {
+  const bounds = [query.yearFrom, query.yearTo, query.minRating, query.minDuration, query.maxDuration]
+  return !!query.q?.trim() || !!query.genres?.length || bounds.some(v => v != null)
+}
+
+/**
+ * Normalizes the shapes `/movies` has returned over time — a bare array, `{ data }`,
+ * `{ movies }` or `{ items }`, with or without pagination metadata — into a {@link Paginated}.
+ * @param resp - Raw response body.
+ * @param query - Query that produced it.
+ */
+function toPaginated(resp: any, query: MovieQuery): Paginated<Movie> {
+  const items = parseMovieList(resp)
+  const meta = Array.isArray(resp) ? null : (resp?.meta ?? resp?.pagination ?? resp)
+  const total = Number(meta?.total ?? meta?.count ?? meta?.totalItems)
+
+  // No metadata: the server sent the whole (unpaged) result set. Its search may be fuzzier or
+  // cover more fields than `matchesText`, so `q` is only re-applied when it was clearly ignored.
+  if (!Number.isFinite(total)) {
+    if (!narrows(query)) catalogSize = items.length
+    const ignoredText = !!query.q?.trim() && items.length === catalogSize
+    return applyMovieQuery(items, ignoredText ? query : { ...query, q: undefined })
+  }
+
+  const pageSize = Number(meta?.pageSize ?? meta?.limit ?? meta?.perPage) || query.pageSize || Math.max(1, items.length)
+  return {
+    items,
+    page: Number(meta?.page ?? meta?.currentPage) || query.page || 1,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Number(meta?.totalPages) || Math.ceil(total / pageSize)),
+  }
+}
+
+type RawCount = Record<string, unknown>
+
+/**
+ * Reads a facet sent as `[{ value, count }]` (also `name`/`key` and `total`) or as a
+ * `{ value: count }` map.
+ */
+function countsOf(raw: unknown): { value: string; count: number }[] {
+  if (Array.isArray(raw)) {
+    return raw.flatMap(x => {
+      const o = (x && typeof x === 'object' ? x : {}) as RawCount
+      const value = o.value ?? o.name ?? o.key
+      return value == null || value === '' ? [] : [{ value: String(value), count: Number(o.count ?? o.total) || 0 }]
+    })
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw as RawCount).map(([value, count]) => ({ value, count: Number(count) || 0 }))
+  }
+  return []
+}
+
+/**
+ * Normalizes a `/movies/facets` response into {@link MovieFacets}. Durations may come per bucket
+ * (`[{ min, max, count }]`) or keyed by the bucket label; missing buckets count 0.
+ * @param resp - Raw response body (optionally wrapped in `{ facets }`).
+ */
+function toFacets(resp: any): MovieFacets {
+  const f = resp?.facets ?? resp ?? {}
+  const numeric = (list: { value: string; count: number }[]) =>
+    list.map(c => ({ value: Number(c.value), count: c.count })).filter(c => Number.isFinite(c.value))
+
+  const decades = numeric(countsOf(f.decades)).sort((a, b) => a.value - b.value)
+  const ratings = numeric(countsOf(f.ratings))
+  const rawDurations: RawCount[] = Array.isArray(f.durations) ? f.durations : []
+  const labelled = countsOf(Array.isArray(f.durations) ? [] : f.durations)
+
+  const bounds = f.yearBounds ?? f.years
+  const min = Number(bounds?.min)
+  const max = Number(bounds?.max)
+
+  return {
+    genres: countsOf(f.genres).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'es')),
+    decades,
+    ratings: [1, 2, 3, 4].map(value => ({ value, count: ratings.find(r => r.value === value)?.count ?? 0 })),
+    durations: DURATION_BUCKETS.map(b => {
+      const hit = rawDurations.find(d => (d.min ?? undefined) === b.min && (d.max ?? undefined) === b.max)
+      return { value: b, count: Number(hit?.count ?? labelled.find(d => d.value === b.label)?.count) || 0 }
+    }),
+    yearBounds: Number.isFinite(min) && Number.isFinite(max)
+      ? { min, max }
+      : decades.length ? { min: decades[0].value, max: decades[decades.length - 1].value + 9 } : null,
+  }
+}
+
+/**
+ * Query-cache keys for movie data.
+ */
+export const movieKeys = {
+  all: ['movies'] as const,
+  list: (query: MovieQuery) => ['movies', 'list', query] as const,
+  facets: (query: MovieQuery) => ['movies', 'facets', query] as const,
+  detail: (id: ID) => ['movies', 'detail', String(id)] as const,
+  search: () => ['movies', 'search'] as const,
+}
 
 /**
  * Lightweight wrapper around the movie endpoints.
  */
 export const Movies = {
   /**
-   * Retrieves the movie catalog. When `q` is provided the result is filtered server-side.
-   * @param q - Optional query string used to filter movies.
-   * @returns Promise resolving to an array of movies.
+   * Retrieves a page of the movie catalog. Filters, sorting and paging are sent to the
+   * server and re-applied locally when the backend does not support them.
+   * @param query - Typed query, or a plain search string (legacy form).
+   * @param opts - Request options such as an abort `signal`.
+   * @returns Promise resolving to a paginated envelope of movies.
+   */
+  async list(query: MovieQuery | string = {}, opts?: RequestOptions): Promise<Paginated<Movie>> {
+    const q: MovieQuery = typeof query === 'string' ? { q: query } : query
+    const resp = await api.get<unknown>(`/movies${toSearch(q)}`, opts)
+    return toPaginated(resp, q)
+  },
+
+  /**
+   * Facet counts of the whole catalog under `query`, each facet counted against the other
+   * active filters (paging and sort are ignored).
+   * @param query - Active filters.
+   * @param opts - Request options such as an abort `signal`.
+   * @returns The counts, or `null` when the backend has no facets endpoint.
    */
-  list: (q?: string) => api.get<Movie[]>(`/movies${q ? `?q=${encodeURIComponent(q)}` : ''}`),
+  async facets(query: MovieQuery, opts?: RequestOptions): Promise<MovieFacets | null> {
+    const { page: _page, pageSize: _pageSize, sort: _sort, order: _order, ...filters } = query
+    try {
+      return toFacets(await api.get<unknown>(`/movies/facets${toSearch(filters)}`, opts))
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) return null
+      throw err
+    }
+  },
 
   /**
    * Fetches the details for the movie identified by `id`.
    * @param id - Movie identifier.
-   * @returns Promise resolving to a single movie payload.
+   * @param opts - Request options such as an abort `signal`.
+   * @returns Promise resolving to the validated movie (the API may wrap it in `{ movie }`).
    */
-  get: (id: ID) => api.get<Movie>(`/movies/${id}`),
+  async get(id: ID, opts?: RequestOptions): Promise<Movie> {
+    const resp = await api.get<any>(`/movies/${encodeURIComponent(id)}`, opts)
+    return parseMovie(resp?.movie ?? resp)
+  },
 }
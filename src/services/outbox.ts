@@ -0,0 +1,390 @@
+/**
+ * @file outbox.ts
+ * @description Persistent outbox for user writes (favorites, ratings), stored in IndexedDB.
+ * Services try their write directly and hand it to {@link enqueueWrite} when it fails for
+ * lack of network or because the server hiccuped (timeouts, 408/429, 5xx). Entries are then
+ * retried with exponential backoff and replayed in order when connectivity returns.
+ *
+ * Conflict rules, per target (`favorite:<movieId>`, `rating:<movieId>`):
+ * - A newer write replaces an older unsent one (last write wins).
+ * - Opposite favorite writes (add then remove, or remove then add) that never reached the
+ *   server cancel out: there is nothing left to send.
+ * - Writes the server rejects (4xx) or that run out of attempts stay as `failed` until the
+ *   user retries or discards them.
+ *
+ * Entries belong to the user that made them; they are dropped when a different user signs in.
+ * Tabs share the outbox through a BroadcastChannel and take turns sending via a Web Lock.
+ */
+import { currentUserId, subscribeSession } from './session'
+import { isRetryable, isSessionExpired } from './api'
+
+/** Kinds of writes the outbox can hold. */
+export type OutboxKind = 'favorite:add' | 'favorite:remove' | 'rating' | 'rating:remove' | 'progress'
+
+/** `pending` entries are (re)tried automatically; `failed` ones wait for the user. */
+export type OutboxStatus = 'pending' | 'failed'
+
+/**
+ * A write waiting to reach the server.
+ */
+export type OutboxEntry = {
+  id: string
+  /** User that made the write (`currentUserId()`). */
+  owner: string | null
+  kind: OutboxKind
+  payload: Record<string, unknown>
+  /** Resource the write targets; writes to the same target collapse. */
+  target: string
+  /** When it was queued (ms). */
+  createdAt: number
+  /** Failed attempts so far (network-down attempts are not counted). */
+  attempts: number
+  /** Earliest time (ms) of the next attempt. */
+  nextAttemptAt: number
+  status: OutboxStatus
+  /** Message of the last failure, for the UI. */
+  lastError?: string
+}
+
+/** How a service sends (and reacts to the definitive failure of) one kind of write. */
+export type Replayer = {
+  /** Sends one write; should throw on failure. */
+  send: (payload: any) => Promise<unknown>
+  /** Called once when the write ends up `failed`, e.g. to refresh cached server state. */
+  onFailed?: (payload: any) => void
+}
+
+const DB_NAME = 'pyra'
+const STORE = 'outbox'
+const LOCK_NAME = 'pyra-outbox'
+
+const BASE_DELAY_MS = 2_000
+const MAX_DELAY_MS = 5 * 60_000
+const MAX_ATTEMPTS = 8
+
+const replayers = new Map<OutboxKind, Replayer>()
+const listeners = new Set<() => void>()
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(LOCK_NAME) : null
+
+let entries: OutboxEntry[] = []
+/** Entries of the signed-in user: what the UI sees. */
+let visible: OutboxEntry[] = []
+let loaded: Promise<void> | null = null
+let writes: Promise<unknown> = Promise.resolve()
+let inFlight: string | null = null
+let flushing = false
+let started = false
+let timer: ReturnType<typeof setTimeout> | undefined
+
+/* ----------------------------- IndexedDB ----------------------------- */
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null)
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => { req.result.createObjectStore(STORE, { keyPath: 'id' }) }
+      req.onsuccess = () => resolve(req.result)
+      // Private mode or storage disabled: the outbox still works, in memory only
+      req.onerror = () => resolve(null)
+    })
+  }
+  return dbPromise
+}
+
+async function readAll(): Promise<OutboxEntry[] | null> {
+  const db = await openDb()
+  if (!db) return null
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).getAll()
+    req.onsuccess = () => resolve(req.result as OutboxEntry[])
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/** Queues the DB update behind earlier ones so the store never goes back in time. */
+function persist(put: OutboxEntry[], del: string[]) {
+  writes = writes
+    .then(async () => {
+      const db = await openDb()
+      if (!db) return
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE, 'readwrite')
+        const store = tx.objectStore(STORE)
+        del.forEach(id => store.delete(id))
+        put.forEach(e => store.put(e))
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+      })
+      channel?.postMessage('changed')
+    })
+    .catch(err => console.warn('No se pudo guardar la cola de cambios:', err))
+}
+
+/* ------------------------------- State ------------------------------- */
+
+function notify() {
+  const owner = currentUserId()
+  visible = owner ? entries.filter(e => e.owner === owner) : []
+  listeners.forEach(l => l())
+}
+
+function byAge(a: OutboxEntry, b: OutboxEntry) {
+  return a.createdAt - b.createdAt
+}
+
+/** Replaces the in-memory list and writes the difference to IndexedDB. */
+function commit(next: OutboxEntry[], put: OutboxEntry[], del: string[]) {
+  entries = next.sort(byAge)
+  notify()
+  if (put.length || del.length) persist(put, del)
+}
+
+function update(entry: OutboxEntry) {
+  commit(entries.map(e => (e.id === entry.id ? entry : e)), [entry], [])
+}
+
+function remove(ids: string[]) {
+  if (!ids.length) return
+  commit(entries.filter(e => !ids.includes(e.id)), [], ids)
+}
+
+/** Re-reads the store (another tab may have changed it). */
+async function reload() {
+  await writes
+  const stored = await readAll().catch(() => null)
+  if (!stored) return
+  entries = stored.sort(byAge)
+  notify()
+}
+
+function ensureLoaded() {
+  if (!loaded) {
+    loaded = readAll().catch(() => null).then(stored => commit(stored ?? [], [], []))
+  }
+  return loaded
+}
+
+/* ------------------------------ Sending ------------------------------ */
+
+/**
+ * Whether `err` means "no network" (as opposed to a server answer).
+ * @param err - Error thrown by the api client.
+ */
+export function isOfflineError(err: unknown) {
+  const e = err as any
+  return e?.code === 'ERR_NETWORK' || (typeof navigator !== 'undefined' && navigator.onLine === false && e?.status === 0)
+}
+
+/**
+ * Whether a failed write should go to the outbox instead of being reported as an error:
+ * no network, timeouts, 408/429 and 5xx.
+ * @param err - Error thrown by the api client.
+ */
+export function shouldQueue(err: unknown) {
+  return isOfflineError(err) || isRetryable(err)
+}
+
+/** Delay before attempt number `attempts + 1`: exponential, capped, with ±20% jitter. */
+function backoff(attempts: number) {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1))
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+/** Runs `run` while holding the cross-tab outbox lock (when the browser supports Web Locks). */
+async function withLock(run: () => Promise<void>) {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  if (locks) await locks.request(LOCK_NAME, run)
+  else await run()
+}
+
+/** Arms a timer for the earliest pending retry. */
+function scheduleNext() {
+  clearTimeout(timer)
+  const owner = currentUserId()
+  const due = entries
+    .filter(e => e.owner === owner && e.status === 'pending' && replayers.has(e.kind))
+    .map(e => e.nextAttemptAt)
+  if (!owner || !due.length) return
+  timer = setTimeout(() => { void flushOutbox() }, Math.max(0, Math.min(...due) - Date.now()))
+}
+
+/**
+ * Oldest entry ready to be sent, skipping those already tried in this flush.
+ * Entries wait behind older ones for the same target.
+ */
+function nextDue(owner: string, ignoreBackoff: boolean, tried: Set<string>) {
+  const now = Date.now()
+  const blocked = new Set<string>()
+  for (const e of entries) {
+    if (e.owner !== owner || blocked.has(e.target)) continue
+    blocked.add(e.target)
+    if (e.status !== 'pending' || !replayers.has(e.kind) || tried.has(e.id)) continue
+    if (ignoreBackoff || e.nextAttemptAt <= now) return e
+  }
+  return undefined
+}
+
+/**
+ * Sends every due entry of the signed-in user, oldest first.
+ * Stops when the network is down or the session expired; server hiccups are rescheduled
+ * with backoff and rejections are marked `failed`.
+ * @param opts.ignoreBackoff - Try pending entries now (e.g. connectivity just came back).
+ */
+export async function flushOutbox(opts: { ignoreBackoff?: boolean } = {}) {
+  await ensureLoaded()
+  const owner = currentUserId()
+  if (flushing || !owner) return
+  flushing = true
+  try {
+    await withLock(async () => {
+      await reload()
+      const tried = new Set<string>()
+      for (let e = nextDue(owner, !!opts.ignoreBackoff, tried); e; e = nextDue(owner, !!opts.ignoreBackoff, tried)) {
+        const entry = e
+        const replayer = replayers.get(entry.kind)!
+        tried.add(entry.id)
+        inFlight = entry.id
+        try {
+          await replayer.send(entry.payload)
+          remove([entry.id])
+        } catch (err) {
+          if (isOfflineError(err) || isSessionExpired(err)) break // wait for `online` / next sign-in
+          // A newer write to the same target supersedes this one
+          if (entries.some(x => x.target === entry.target && x.id !== entry.id && x.createdAt >= entry.createdAt)) {
+            remove([entry.id])
+            continue
+          }
+          const attempts = entry.attempts + 1
+          const failed = !isRetryable(err) || attempts >= MAX_ATTEMPTS
+          update({
+            ...entry,
+            attempts,
+            status: failed ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + backoff(attempts),
+            lastError: (err as Error)?.message,
+          })
+          if (failed) replayer.onFailed?.(entry.payload)
+        } finally {
+          inFlight = null
+        }
+      }
+    })
+  } finally {
+    flushing = false
+    scheduleNext()
+  }
+}
+
+/** Starts replaying (now, on `online`, on sign-in) after the first replayer registers. */
+function ensureStarted() {
+  if (started || typeof window === 'undefined') return
+  started = true
+  window.addEventListener('online', () => { void flushOutbox({ ignoreBackoff: true }) })
+  // Never replay one user's writes with another user's token
+  subscribeSession(() => {
+    const owner = currentUserId()
+    if (owner) remove(entries.filter(e => e.owner !== owner).map(e => e.id))
+    notify()
+    if (owner) void flushOutbox()
+    else clearTimeout(timer)
+  })
+  channel?.addEventListener('message', () => { void reload() })
+  void flushOutbox()
+}
+
+/**
+ * Registers how to send writes of `kind`.
+ * @param kind - Write kind.
+ * @param replayer - Sender and optional failure hook.
+ */
+export function registerReplayer(kind: OutboxKind, replayer: Replayer) {
+  replayers.set(kind, replayer)
+  ensureStarted()
+}
+
+function isOpposite(a: OutboxKind, b: OutboxKind) {
+  return (a === 'favorite:add' && b === 'favorite:remove') || (a === 'favorite:remove' && b === 'favorite:add')
+}
+
+/**
+ * Records a write that just failed, applying the conflict rules described above.
+ * It is retried after the first backoff delay (or as soon as the browser is back online).
+ * @param kind - Write kind (must have a replayer).
+ * @param payload - Data the replayer needs.
+ * @param target - Identity of the target resource.
+ */
+export async function enqueueWrite(kind: OutboxKind, payload: Record<string, unknown>, target: string) {
+  await ensureLoaded()
+  const owner = currentUserId()
+  // The entry being sent right now is left alone: it may already have reached the server
+  const previous = entries.filter(e => e.owner === owner && e.target === target && e.id !== inFlight)
+  const cancels = previous.some(e => e.status === 'pending' && e.attempts === 0 && isOpposite(e.kind, kind))
+  const added: OutboxEntry[] = cancels ? [] : [{
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    owner,
+    kind,
+    payload,
+    target,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_DELAY_MS,
+    status: 'pending',
+  }]
+  const dropped = previous.map(e => e.id)
+  commit([...entries.filter(e => !dropped.includes(e.id)), ...added], added, dropped)
+  scheduleNext()
+}
+
+/**
+ * Latest unsent write of the signed-in user for `target`, if any.
+ * Services use it to overlay pending changes on server data and to keep writes in order.
+ * @param target - Target resource (e.g. `favorite:<movieId>`).
+ */
+export async function findPendingWrite(target: string): Promise<OutboxEntry | undefined> {
+  await ensureLoaded()
+  return visible.filter(e => e.target === target).pop()
+}
+
+/**
+ * Unsent writes of the signed-in user whose target starts with `prefix`.
+ * @param prefix - Target prefix (e.g. `favorite:`).
+ */
+export async function findPendingWrites(prefix: string): Promise<OutboxEntry[]> {
+  await ensureLoaded()
+  return visible.filter(e => e.target.startsWith(prefix))
+}
+
+/** Unsent writes of the signed-in user, oldest first. */
+export function getOutbox(): OutboxEntry[] {
+  return visible
+}
+
+/**
+ * Subscribes to outbox changes.
+ * @returns Unsubscribe function.
+ */
+export function subscribeOutbox(listener: () => void) {
+  void ensureLoaded()
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/** Puts every failed write of the signed-in user back in the queue and sends them. */
+export async function retryFailed() {
+  await ensureLoaded()
+  const failed = visible.filter(e => e.status === 'failed')
+  if (!failed.length) return
+  const retried = failed.map(e => ({ ...e, status: 'pending' as const, attempts: 0, nextAttemptAt: 0 }))
+  commit(entries.map(e => retried.find(r => r.id === e.id) ?? e), retried, [])
+  await flushOutbox()
+}
+
+/** Forgets every failed write of the signed-in user. */
+export async function discardFailed() {
+  await ensureLoaded()
+  remove(visible.filter(e => e.status === 'failed').map(e => e.id))
+}
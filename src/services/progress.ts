@@ -0,0 +1,175 @@
+/**
+ * @file progress.ts
+ * @description Playback positions per movie, used to resume playback and for "Continuar viendo".
+ * Positions are always kept in localStorage (per user) so resuming works offline; signed-in
+ * users also sync them with the `/progress` endpoints, through the outbox when offline.
+ */
+import { ApiError, api } from './api'
+import { currentUserId } from './session'
+import { enqueueWrite, findPendingWrite, registerReplayer, shouldQueue } from './outbox'
+import { isWatched, parseProgress, parseProgressList } from './models'
+import { Movies } from './movies'
+import type { Movie, WatchProgress } from '../types'
+
+const PREFIX = 'watch-progress:'
+/** Movies remembered locally per user; the least recently watched are dropped first. */
+const MAX_LOCAL = 50
+/** Positions closer than this to the start (seconds) are not worth resuming. */
+export const MIN_RESUME_SECONDS = 10
+
+/**
+ * Query-cache keys for playback progress.
+ */
+export const progressKeys = {
+  all: ['progress'] as const,
+  list: () => ['progress', 'list'] as const,
+  detail: (movieId: string) => ['progress', 'detail', movieId] as const,
+}
+
+/** Outbox target of the progress writes for one movie. */
+export const progressTarget = (movieId: string) => `progress:${movieId}`
+
+type ProgressPayload = Pick<WatchProgress, 'movieId' | 'position' | 'duration' | 'watched'>
+
+/* ------------------------------- Local copy ------------------------------- */
+
+function keyFor(userId: string | null) {
+  return PREFIX + (userId || 'anon')
+}
+
+function readLocal(userId: string | null): WatchProgress[] {
+  try {
+    return parseProgressList(JSON.parse(localStorage.getItem(keyFor(userId)) || '[]'))
+  } catch {
+    return []
+  }
+}
+
+function writeLocal(userId: string | null, entry: WatchProgress) {
+  const list = [entry, ...readLocal(userId).filter(p => p.movieId !== entry.movieId)].slice(0, MAX_LOCAL)
+  try {
+    localStorage.setItem(keyFor(userId), JSON.stringify(list))
+  } catch {
+    /* noop */
+  }
+}
+
+/** Just what the "Continuar viendo" row needs, so the local copy stays small. */
+function snapshot(m: Movie): Movie {
+  return { id: m.id, title: m.title, year: m.year, genres: m.genres, posterUrl: m.posterUrl, durationMin: m.durationMin }
+}
+
+const time = (p: WatchProgress) => Date.parse(p.updatedAt) || 0
+
+/** Keeps the most recent entry per movie; movie data missing from it is taken from the other. */
+function merge(...lists: WatchProgress[][]): WatchProgress[] {
+  const byMovie = new Map<string, WatchProgress>()
+  for (const p of lists.flat()) {
+    const prev = byMovie.get(p.movieId)
+    if (!prev) byMovie.set(p.movieId, p)
+    else {
+      const [newer, older] = time(p) > time(prev) ? [p, prev] : [prev, p]
+      byMovie.set(p.movieId, { ...newer, movie: newer.movie ?? older.movie })
+    }
+  }
+  return [...byMovie.values()].sort((a, b) => time(b) - time(a))
+}
+
+/* --------------------------------- Server --------------------------------- */
+
+/** A backend without `/progress` answers 404: the position then only lives on this device. */
+async function sendProgress({ movieId, ...body }: ProgressPayload) {
+  try {
+    await api.put<unknown>(`/progress/${encodeURIComponent(movieId)}`, body)
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return
+    throw err
+  }
+}
+
+registerReplayer('progress', { send: sendProgress })
+
+async function fetchOne(movieId: string): Promise<WatchProgress | null> {
+  try {
+    return parseProgress(await api.get<unknown>(`/progress/${encodeURIComponent(movieId)}`))
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null
+    throw err
+  }
+}
+
+/**
+ * Service layer for playback progress. Reads merge the local copy with the server's,
+ * keeping the most recent position per movie; server failures fall back to the local copy.
+ */
+export const Progress = {
+  /**
+   * Records the playback position of a movie. The local copy is updated synchronously,
+   * so it is safe to call while the page is being hidden or closed.
+   * @param movie - Movie being played.
+   * @param position - Current time in seconds.
+   * @param duration - Length in seconds (0 when unknown).
+   * @returns The saved entry.
+   */
+  async save(movie: Movie, position: number, duration: number): Promise<WatchProgress> {
+    const userId = currentUserId()
+    const entry: WatchProgress = {
+      movieId: movie.id,
+      position: Math.floor(position),
+      duration: Math.floor(duration || 0),
+      watched: isWatched(position, duration),
+      updatedAt: new Date().toISOString(),
+      movie: snapshot(movie),
+    }
+    writeLocal(userId, entry)
+    if (!userId) return entry
+
+    const payload: ProgressPayload = { movieId: entry.movieId, position: entry.position, duration: entry.duration, watched: entry.watched }
+    // An older position still waiting in the outbox would overwrite this one later
+    if (!(await findPendingWrite(progressTarget(movie.id)))) {
+      try {
+        await sendProgress(payload)
+        return entry
+      } catch (err) {
+        // Rejected by the server: the local copy is enough to resume on this device
+        if (!shouldQueue(err)) {
+          console.warn('No se pudo guardar el progreso:', err)
+          return entry
+        }
+      }
+    }
+    await enqueueWrite('progress', payload, progressTarget(movie.id))
+    return entry
+  },
+
+  /**
+   * Returns the last known position in a movie.
+   * @param movieId - Movie to look up.
+   * @returns The entry, or `null` when the movie was never played.
+   */
+  async get(movieId: string): Promise<WatchProgress | null> {
+    const userId = currentUserId()
+    const local = readLocal(userId).filter(p => p.movieId === movieId)
+    const remote = userId ? await fetchOne(movieId).catch(() => null) : null
+    return merge(local, remote ? [remote] : [])[0] ?? null
+  },
+
+  /**
+   * Movies started but not finished, most recently watched first.
+   * Movies the API returns without data are fetched individually (and skipped if that fails).
+   * @param limit - Maximum number of movies.
+   */
+  async continueWatching(limit = 12): Promise<(WatchProgress & { movie: Movie })[]> {
+    const userId = currentUserId()
+    const local = readLocal(userId)
+    const remote = userId ? await api.get<unknown>('/progress').then(r => parseProgressList(r)).catch(() => []) : []
+    const started = merge(local, remote)
+      .filter(p => !p.watched && p.position >= MIN_RESUME_SECONDS)
+      .slice(0, limit)
+    const withMovies = await Promise.all(started.map(async p => {
+      const movie = p.movie ?? await Movies.get(p.movieId).catch(() => undefined)
+      return movie ? { ...p, movie } : null
+    }))
+    return withMovies.filter((p): p is WatchProgress & { movie: Movie } => p !== null)
+  },
+}
@@ -0,0 +1,258 @@
+/**
+ * @file queryCache.ts
+ * @description Shared cache for server data, keyed by endpoint + params.
+ * - Stale-while-revalidate: cached data is returned at once and refreshed in the background when stale.
+ * - De-duplication: concurrent requests for the same key share one promise.
+ * - Invalidation: mutations mark keys stale by prefix and subscribed ones refetch.
+ * - Structural sharing: unchanged parts of a refetched result keep their old references,
+ *   so memoized children (e.g. MovieCard posters) do not re-render.
+ * The cache is reset when the signed-in user changes. React bindings live in `hooks/useQuery.ts`.
+ */
+import { currentUserId, getSession, subscribeSession } from './session'
+
+/** Array key: first item names the resource, the rest are its params. */
+export type QueryKey = readonly unknown[]
+
+/** Lifecycle of a cached query. */
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error'
+
+/**
+ * Immutable snapshot of a query (a new object on every change).
+ */
+export type QueryState<T> = {
+  status: QueryStatus
+  /** Last successful result, kept while refetching and after later errors. */
+  data: T | undefined
+  /** Error of the last attempt, cleared by the next success. */
+  error: unknown
+  /** True while a request is in flight (including background refreshes). */
+  isFetching: boolean
+  /** When `data` was last stored (0 = never or invalidated). */
+  updatedAt: number
+}
+
+/** Options for {@link fetchQuery}. */
+export type FetchOptions = {
+  /** How long data counts as fresh, in ms (default 30 s). */
+  staleTime?: number
+  /** Fetch even when the data is fresh. */
+  force?: boolean
+}
+
+type Entry = {
+  key: QueryKey
+  state: QueryState<any>
+  promise: Promise<any> | null
+  /** Last fetcher used for this key, reused when the key is invalidated. */
+  fetcher: (() => Promise<any>) | null
+  /** Invalidated while a request was in flight: its result is already outdated. */
+  refetchAfter: boolean
+  listeners: Set<() => void>
+  gcTimer?: number
+}
+
+const DEFAULT_STALE_MS = 30_000
+/** Unused entries are dropped after this long. */
+const GC_MS = 5 * 60_000
+
+const INITIAL: QueryState<any> = { status: 'idle', data: undefined, error: null, isFetching: false, updatedAt: 0 }
+
+const entries = new Map<string, Entry>()
+let started = false
+let owner: string | null = null
+
+/**
+ * Serializes a key deterministically (object properties sorted, `undefined` dropped).
+ * @param key - Query key.
+ */
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key, (_k, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v).sort().reduce<Record<string, unknown>>((o, k) => {
+        if (v[k] !== undefined) o[k] = v[k]
+        return o
+      }, {})
+      : v
+  )
+}
+
+/** Identity of the signed-in user, used to reset the cache when it changes. */
+function sessionOwner() {
+  return currentUserId() ?? (getSession().status === 'authenticated' ? 'user' : null)
+}
+
+/** Watches the session once, on first use. */
+function ensureStarted() {
+  if (started) return
+  started = true
+  owner = sessionOwner()
+  subscribeSession(() => {
+    const next = sessionOwner()
+    if (next === owner) return
+    owner = next
+    resetQueryCache()
+  })
+}
+
+function entryFor(key: QueryKey): Entry {
+  ensureStarted()
+  const hash = hashKey(key)
+  let e = entries.get(hash)
+  if (!e) {
+    e = { key, state: INITIAL, promise: null, fetcher: null, refetchAfter: false, listeners: new Set() }
+    entries.set(hash, e)
+    scheduleGc(hash, e)
+  }
+  return e
+}
+
+function scheduleGc(hash: string, e: Entry) {
+  window.clearTimeout(e.gcTimer)
+  e.gcTimer = window.setTimeout(() => {
+    if (!e.listeners.size && !e.promise) entries.delete(hash)
+  }, GC_MS)
+}
+
+function update(e: Entry, patch: Partial<QueryState<any>>) {
+  e.state = { ...e.state, ...patch }
+  e.listeners.forEach(l => l())
+}
+
+/**
+ * Returns `next`, reusing values from `prev` wherever they are deep-equal.
+ * Returns `prev` itself when nothing changed.
+ */
+function replaceEqualDeep(prev: any, next: any): any {
+  if (prev === next) return prev
+  const arrays = Array.isArray(prev) && Array.isArray(next)
+  const plain = (v: any) => v && typeof v === 'object' && Object.getPrototypeOf(v) === Object.prototype
+  if (!arrays && !(plain(prev) && plain(next))) return next
+
+  const keys = arrays ? next.map((_: unknown, i: number) => i) : Object.keys(next)
+  const out: any = arrays ? [] : {}
+  let same = arrays ? prev.length === next.length : Object.keys(prev).length === keys.length
+  for (const k of keys) {
+    out[k] = replaceEqualDeep(prev[k], next[k])
+    if (out[k] !== prev[k]) same = false
+  }
+  return same ? prev : out
+}
+
+/**
+ * Current snapshot for `key` (stable reference until it changes).
+ * @param key - Query key.
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return entryFor(key).state
+}
+
+/**
+ * Subscribes to changes of one key.
+ * @returns Unsubscribe function.
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const e = entryFor(key)
+  e.listeners.add(listener)
+  window.clearTimeout(e.gcTimer)
+  return () => {
+    e.listeners.delete(listener)
+    if (!e.listeners.size) scheduleGc(hashKey(key), e)
+  }
+}
+
+/**
+ * Returns the cached data when fresh, otherwise runs `fetcher` (once, even if several
+ * callers ask at the same time) and caches its result.
+ * @param key - Query key.
+ * @param fetcher - Loads the data from the server.
+ * @param opts - Freshness options.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, opts: FetchOptions = {}): Promise<T> {
+  const e = entryFor(key)
+  e.fetcher = fetcher
+  if (e.promise) return e.promise
+
+  const staleTime = opts.staleTime ?? DEFAULT_STALE_MS
+  const fresh = e.state.status === 'success' && Date.now() - e.state.updatedAt < staleTime
+  if (fresh && !opts.force) return Promise.resolve(e.state.data as T)
+
+  update(e, {
+    isFetching: true,
+    status: e.state.data === undefined ? 'loading' : e.state.status,
+  })
+
+  const run = fetcher()
+  const promise = run.then(
+    data => {
+      if (e.promise === promise) {
+        e.promise = null
+        update(e, {
+          status: 'success',
+          data: replaceEqualDeep(e.state.data, data),
+          error: null,
+          isFetching: false,
+          updatedAt: e.refetchAfter ? 0 : Date.now(),
+        })
+        refetchIfInvalidated(e)
+      }
+      return e.state.data as T
+    },
+    error => {
+      if (e.promise === promise) {
+        e.promise = null
+        update(e, { status: 'error', error, isFetching: false })
+        refetchIfInvalidated(e)
+      }
+      throw error
+    }
+  )
+  e.promise = promise
+  return promise
+}
+
+function refetchIfInvalidated(e: Entry) {
+  if (!e.refetchAfter) return
+  e.refetchAfter = false
+  if (e.listeners.size && e.fetcher) fetchQuery(e.key, e.fetcher, { force: true }).catch(() => { /* state holds the error */ })
+}
+
+/**
+ * Writes data for `key` directly (e.g. an optimistic update or a mutation's response).
+ * @param key - Query key.
+ * @param updater - New data, or a function of the current data.
+ */
+export function setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)) {
+  const e = entryFor(key)
+  const data = typeof updater === 'function' ? (updater as (prev: T | undefined) => T)(e.state.data) : updater
+  update(e, { status: 'success', data, error: null, updatedAt: Date.now() })
+}
+
+/**
+ * Marks every key starting with `prefix` as stale. Keys with subscribers refetch in the
+ * background; the rest refetch on next use.
+ * @param prefix - Key prefix, e.g. `['favorites']` matches `['favorites', 'has', id]`.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  const parts = prefix.map(p => hashKey([p]))
+  for (const e of entries.values()) {
+    if (!parts.every((p, i) => i < e.key.length && hashKey([e.key[i]]) === p)) continue
+    if (e.promise) {
+      e.refetchAfter = true
+      continue
+    }
+    update(e, { updatedAt: 0 })
+    if (e.listeners.size && e.fetcher) fetchQuery(e.key, e.fetcher, { force: true }).catch(() => { /* state holds the error */ })
+  }
+}
+
+/**
+ * Forgets all data (e.g. another user signed in). Mounted queries start over.
+ */
+export function resetQueryCache() {
+  for (const e of entries.values()) {
+    e.promise = null
+    e.refetchAfter = false
+    update(e, INITIAL)
+    if (e.listeners.size && e.fetcher) fetchQuery(e.key, e.fetcher).catch(() => { /* state holds the error */ })
+  }
+}
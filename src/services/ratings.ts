@@ -0,0 +1,268 @@
+/**
+ * @file ratings.ts
+ * @description Client helpers for the ratings API endpoints: the signed-in user's rating
+ * and review of a movie (stars + optional text), everyone's reviews and their summary.
+ * Writes of the user's own review go through the outbox when offline.
+ */
+import { ApiError, api } from './api'
+import { currentUserId } from './session'
+import { invalidateQueries } from './queryCache'
+import { enqueueWrite, findPendingWrite, findPendingWrites, registerReplayer, shouldQueue } from './outbox'
+import { parseRating, parseRatingList, parseRatingSummary } from './models'
+import { recommendationKeys } from './recommendationKeys'
+import type { Paginated, Rating, RatingSummary } from '../types'
+
+/** Orders offered for the reviews list. */
+export type ReviewSort = 'recent' | 'helpful'
+
+/**
+ * Query accepted by {@link Ratings.reviews}.
+ */
+export type ReviewQuery = {
+  /** 1-based page number (default 1). */
+  page?: number
+  /** Page size (default 5). */
+  pageSize?: number
+  /** Default `recent`. */
+  sort?: ReviewSort
+  /** Leaves out the review of this user (the signed-in user's own, shown apart). */
+  excludeUserId?: string
+}
+
+/** A page of reviews plus the summary of every rating of the movie. */
+export type ReviewPage = Paginated<Rating> & {
+  /** `null` when the backend pages the reviews without sending a summary. */
+  summary: RatingSummary | null
+}
+
+/** {@link ReviewQuery} with its defaults filled in. */
+type FullReviewQuery = ReviewQuery & Required<Pick<ReviewQuery, 'page' | 'pageSize' | 'sort'>>
+
+const DEFAULT_PAGE_SIZE = 5
+
+/**
+ * Query-cache keys for ratings. Everything about a movie lives under `['ratings', movieId]`
+ * so one invalidation refreshes the user's review, the list and the summary.
+ */
+export const ratingKeys = {
+  all: ['ratings'] as const,
+  movie: (movieId: string) => ['ratings', movieId] as const,
+  mine: (movieId: string) => ['ratings', movieId, 'mine'] as const,
+  reviews: (movieId: string, query: ReviewQuery) => ['ratings', movieId, 'reviews', query] as const,
+}
+
+/** Outbox target of the rating writes for one movie. */
+export const ratingTarget = (movieId: string) => `rating:${movieId}`
+
+/** Id of the signed-in user, as used in `Rating.userId`. */
+export function currentRaterId(): string | null {
+  return currentUserId()
+}
+
+/* --------------------------------- Writes --------------------------------- */
+
+type RatingPayload = { movieId: string; rating: number; comment?: string }
+
+/** The user's ratings feed the recommendations, so both are refetched after a write. */
+function invalidate(movieId: string) {
+  invalidateQueries(ratingKeys.movie(movieId))
+  invalidateQueries(recommendationKeys.all)
+}
+
+async function sendRating({ movieId, rating, comment }: RatingPayload) {
+  const res = await api.post<unknown>('/ratings', { movieId, rating, ...(comment !== undefined ? { comment } : {}) })
+  invalidate(movieId)
+  return res
+}
+
+/** Deleting a review that is already gone counts as done. */
+async function sendRemove(movieId: string) {
+  try {
+    await api.del<unknown>(`/ratings?movieId=${encodeURIComponent(movieId)}`)
+  } catch (err) {
+    if (!(err instanceof ApiError && err.status === 404)) throw err
+  }
+  invalidate(movieId)
+}
+
+// A rejected write leaves the server as it was: refetch so the UI shows the real state
+const refresh = ({ movieId }: { movieId: string }) => invalidate(movieId)
+registerReplayer('rating', { send: sendRating, onFailed: refresh })
+registerReplayer('rating:remove', { send: ({ movieId }) => sendRemove(movieId), onFailed: refresh })
+
+/**
+ * Sends a write of the user's review, or records it in the outbox when the network or the
+ * server fails (or an older write for the same movie is still unsent).
+ */
+async function write(kind: 'rating' | 'rating:remove', payload: RatingPayload | { movieId: string }, send: () => Promise<unknown>) {
+  if (!(await findPendingWrite(ratingTarget(payload.movieId)))) {
+    try {
+      await send()
+      return { queued: false }
+    } catch (err) {
+      if (!shouldQueue(err)) throw err
+    }
+  }
+  await enqueueWrite(kind, payload, ratingTarget(payload.movieId))
+  invalidate(payload.movieId)
+  return { queued: true }
+}
+
+/* ---------------------------------- Reads --------------------------------- */
+
+const time = (r: Rating) => Date.parse(r.updatedAt ?? r.createdAt ?? '') || 0
+
+/** Newest first, or most helpful first (newest breaking ties). */
+function sortReviews(list: Rating[], sort: ReviewSort) {
+  return [...list].sort((a, b) =>
+    (sort === 'helpful' ? (b.helpfulCount ?? 0) - (a.helpfulCount ?? 0) : 0) || time(b) - time(a))
+}
+
+/**
+ * Average and histogram of a full list of ratings.
+ * @param list - Every rating of a movie.
+ */
+export function summarize(list: Rating[]): RatingSummary {
+  const histogram = [0, 0, 0, 0, 0]
+  for (const r of list) if (r.stars > 0) histogram[Math.ceil(r.stars) - 1]++
+  const rated = list.filter(r => r.stars > 0)
+  const average = rated.length ? rated.reduce((sum, r) => sum + r.stars, 0) / rated.length : 0
+  return { average, count: rated.length, histogram }
+}
+
+/**
+ * Normalizes `/ratings` responses: a bare array (sorted, paged and summarized here) or an
+ * envelope with pagination metadata and, optionally, a `summary`/`stats` object. The review of
+ * `excludeUserId` is dropped before paging, or subtracted from the total when the server kept it.
+ */
+function toReviewPage(resp: any, query: FullReviewQuery): ReviewPage {
+  const all = parseRatingList(resp)
+  const items = query.excludeUserId ? all.filter(r => r.userId !== query.excludeUserId) : all
+  const meta = Array.isArray(resp) ? null : (resp?.meta ?? resp?.pagination ?? resp)
+  const total = Number(meta?.total ?? meta?.count ?? meta?.totalItems)
+  const rawSummary = Array.isArray(resp) ? null : (resp?.summary ?? resp?.stats)
+  const summary = rawSummary ? parseRatingSummary(rawSummary) : null
+
+  // No metadata: the server sent every rating of the movie
+  if (!Number.isFinite(total)) {
+    const start = (query.page - 1) * query.pageSize
+    const reviews = sortReviews(items.filter(r => r.comment), query.sort)
+    return {
+      items: reviews.slice(start, start + query.pageSize),
+      page: query.page,
+      pageSize: query.pageSize,
+      total: reviews.length,
+      totalPages: Math.max(1, Math.ceil(reviews.length / query.pageSize)),
+      summary: summary ?? summarize(all),
+    }
+  }
+
+  // A server that ignored `excludeUserId` counted the hidden review too
+  const shownTotal = total - (all.length - items.length)
+  const pageSize = Number(meta?.pageSize ?? meta?.limit ?? meta?.perPage) || query.pageSize
+  return {
+    items,
+    page: Number(meta?.page ?? meta?.currentPage) || query.page,
+    pageSize,
+    total: shownTotal,
+    totalPages: Math.max(1, Math.ceil(shownTotal / pageSize)),
+    summary,
+  }
+}
+
+/**
+ * Service layer for ratings and reviews. `rate` and `remove` invalidate the cached queries of
+ * the movie and the recommendations; when the network or the server fails they are kept in the
+ * outbox (see `outbox.ts`) and resolve with `queued: true`. `mine` and `listMine` show unsent
+ * writes as if they had been applied.
+ */
+export const Ratings = {
+  /**
+   * Saves the user's rating (and optionally review) of a movie.
+   * @param movieId - Rated movie.
+   * @param rating - Stars (1-5).
+   * @param comment - Review text; omit to keep the current one, `''` to clear it.
+   */
+  async rate(movieId: string, rating: number, comment?: string): Promise<{ queued: boolean }> {
+    const payload: RatingPayload = { movieId, rating, ...(comment !== undefined ? { comment: comment.trim() } : {}) }
+    return write('rating', payload, () => sendRating(payload))
+  },
+
+  /**
+   * Deletes the user's rating and review of a movie.
+   * @param movieId - Movie whose review is deleted.
+   */
+  async remove(movieId: string): Promise<{ queued: boolean }> {
+    return write('rating:remove', { movieId }, () => sendRemove(movieId))
+  },
+
+  /**
+   * The signed-in user's rating of a movie.
+   * @param movieId - Movie to look up.
+   * @returns The rating, or `null` when the user has not rated it (or is signed out).
+   */
+  async mine(movieId: string): Promise<Rating | null> {
+    const userId = currentRaterId()
+    if (!userId) return null
+    const pending = await findPendingWrite(ratingTarget(movieId))
+    if (pending?.status === 'pending') {
+      if (pending.kind === 'rating:remove') return null
+      const { rating, comment } = pending.payload as RatingPayload
+      const updatedAt = new Date(pending.createdAt).toISOString()
+      return { id: `${movieId}:${userId}`, movieId, userId, stars: rating, comment, updatedAt }
+    }
+    try {
+      return parseRating(await api.get<unknown>(`/ratings/me?movieId=${encodeURIComponent(movieId)}`))
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) return null
+      throw err
+    }
+  },
+
+  /**
+   * Every rating of the signed-in user, with unsent writes applied.
+   * @returns Empty when signed out or when the user has not rated anything.
+   */
+  async listMine(): Promise<Rating[]> {
+    const userId = currentRaterId()
+    if (!userId) return []
+    let list: Rating[]
+    try {
+      list = parseRatingList(await api.get<unknown>('/ratings/me'))
+    } catch (err) {
+      if (!(err instanceof ApiError && err.status === 404)) throw err
+      list = []
+    }
+    const byMovie = new Map(list.map(r => [r.movieId, r]))
+    for (const w of await findPendingWrites('rating:')) {
+      if (w.status !== 'pending') continue
+      const { movieId, rating, comment } = w.payload as RatingPayload
+      if (w.kind === 'rating:remove') byMovie.delete(movieId)
+      else byMovie.set(movieId, { id: `${movieId}:${userId}`, movieId, userId, stars: rating, comment, updatedAt: new Date(w.createdAt).toISOString() })
+    }
+    return [...byMovie.values()]
+  },
+
+  /**
+   * A page of the reviews (ratings with text) of a movie, plus the summary of its ratings.
+   * @param movieId - Movie whose reviews are listed.
+   * @param query - Page, page size, order and the user whose review is left out.
+   */
+  async reviews(movieId: string, query: ReviewQuery = {}): Promise<ReviewPage> {
+    const q: FullReviewQuery = { ...query, page: query.page ?? 1, pageSize: query.pageSize ?? DEFAULT_PAGE_SIZE, sort: query.sort ?? 'recent' }
+    const params = new URLSearchParams({ movieId, page: String(q.page), pageSize: String(q.pageSize), sort: q.sort })
+    if (q.excludeUserId) params.set('excludeUserId', q.excludeUserId)
+    return toReviewPage(await api.get<unknown>(`/ratings?${params}`), q)
+  },
+
+  /**
+   * Marks (or unmarks) someone else's review as helpful.
+   * @param review - Review being voted.
+   * @param helpful - `false` withdraws the vote.
+   */
+  async markHelpful(review: Rating, helpful: boolean) {
+    const path = `/ratings/${encodeURIComponent(review.id)}/helpful`
+    await (helpful ? api.post<unknown>(path, {}) : api.del<unknown>(path))
+    invalidateQueries(ratingKeys.movie(review.movieId))
+  },
+}
@@ -0,0 +1,13 @@
+/**
+ * @file recommendationKeys.ts
+ * @description Query-cache keys for recommendations. Kept apart from `recommendations.ts` so
+ * `favorites.ts` and `ratings.ts` can invalidate them without importing the service that reads them.
+ */
+
+/**
+ * Query-cache keys for recommendations.
+ */
+export const recommendationKeys = {
+  all: ['recommendations'] as const,
+  forYou: () => ['recommendations', 'for-you'] as const,
+}
@@ -0,0 +1,62 @@
+/**
+ * @file recommendations.ts
+ * @description "Recomendado para ti": recommendations computed on the client from the catalog
+ * (shared with search under `movieKeys.search()`), the user's favorites and star ratings.
+ * The ranking itself lives in `utils/recommend.ts`. `favorites.ts` and `ratings.ts` invalidate
+ * `recommendationKeys.all` (see `recommendationKeys.ts`) after every write.
+ */
+import { Favorites } from './favorites'
+import { movieKeys } from './movies'
+import { loadMovieSearch, SEARCH_STALE_MS } from './movieSearch'
+import { fetchQuery } from './queryCache'
+import { Ratings } from './ratings'
+import { currentUserId } from './session'
+import { recommend, type Liked, type Recommendation } from '../utils/recommend'
+
+/** Ratings from this value up count as liking the movie. */
+const LIKED_RATING = 3.5
+
+/** 3.5 stars → 0.25, 4 → 0.5, 5 → 1 (a favorite also counts as 1). */
+function ratingWeight(stars: number) {
+  return stars >= LIKED_RATING ? (stars - 3) / 2 : 0
+}
+
+/**
+ * Service layer for personal recommendations.
+ */
+export const Recommendations = {
+  /**
+   * Movies similar to the ones the user favorited or rated well, excluding those already
+   * favorited or rated. Unsent favorites and ratings count too. The catalog is only loaded
+   * once something is liked.
+   * @param limit - Maximum number of movies.
+   * @returns Best first, each with the liked movie that explains it (empty when signed out
+   * or nothing is liked yet).
+   */
+  async forYou(limit = 12): Promise<Recommendation[]> {
+    if (!currentUserId()) return []
+    const [favorites, ratings] = await Promise.all([
+      Favorites.list().catch(() => []),
+      Ratings.listMine().catch(() => []),
+    ])
+    const weights = new Map(favorites.map(f => [f.movieId, 1]))
+    for (const r of ratings) {
+      const weight = ratingWeight(r.stars)
+      if (weight > (weights.get(r.movieId) ?? 0)) weights.set(r.movieId, weight)
+    }
+    if (!weights.size) return []
+
+    const { catalog } = await fetchQuery(movieKeys.search(), loadMovieSearch, { staleTime: SEARCH_STALE_MS })
+    const byId = new Map(catalog.map(m => [m.id, m]))
+    const favoriteMovies = new Map(favorites.map(f => [f.movieId, f.movie]))
+
+    const liked: Liked[] = []
+    for (const [movieId, weight] of weights) {
+      const movie = byId.get(movieId) ?? favoriteMovies.get(movieId)
+      if (movie) liked.push({ movie, weight })
+    }
+
+    const exclude = new Set([...favorites.map(f => f.movieId), ...ratings.map(r => r.movieId)])
+    return recommend(catalog, liked, exclude, limit)
+  },
+}
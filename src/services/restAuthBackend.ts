@@ -0,0 +1,73 @@
+/**
+ * @file restAuthBackend.ts
+ * @description Auth backend for our REST API: JWT login/signup via `Auth`, state from the session store.
+ */
+import type { AuthBackend, AuthEvent, AuthUser } from './authProvider'
+import { Auth } from './auth'
+import { getSession, sessionUserId, subscribeSession, type Session } from './session'
+import type { JwtClaims } from '../utils/jwt'
+
+/**
+ * Best-effort display name from standard/profile JWT claims.
+ * @param claims - Decoded token payload.
+ */
+function nameFromClaims(claims: JwtClaims | null): string | null {
+  if (!claims) return null
+  return (
+    claims.name ||
+    claims.full_name ||
+    claims.given_name ||
+    claims.preferred_username ||
+    null
+  )
+}
+
+let lastSession: Session | null = null
+let lastUser: AuthUser | null = null
+
+/**
+ * Maps a session snapshot to an {@link AuthUser}, reusing the previous object while
+ * the snapshot is unchanged so React subscribers do not re-render needlessly.
+ * @param s - Current session snapshot.
+ */
+function toAuthUser(s: Session): AuthUser | null {
+  if (s === lastSession) return lastUser
+  lastSession = s
+  if (s.status !== 'authenticated') return (lastUser = null)
+  const u = s.user
+  const c = s.claims
+  return (lastUser = {
+    id: sessionUserId(s),
+    name: u?.name || nameFromClaims(c),
+    email: u?.email ?? (typeof c?.email === 'string' ? c.email : null),
+    source: 'rest',
+  })
+}
+
+export const restAuthBackend: AuthBackend = {
+  source: 'rest',
+
+  getUser: () => toAuthUser(getSession()),
+
+  onChange(listener: (event: AuthEvent) => void) {
+    let prev = getSession().status
+    return subscribeSession(() => {
+      const next = getSession().status
+      if (next === 'authenticated') listener(prev === 'authenticated' ? 'USER_UPDATED' : 'SIGNED_IN')
+      else if (prev === 'authenticated') listener('SIGNED_OUT')
+      prev = next
+    })
+  },
+
+  async login(email, password) {
+    await Auth.login(email, password)
+  },
+
+  async signup({ name, apellido, email, password, confirmPassword, ageOrDob }) {
+    await Auth.signup(name, apellido, email, password, confirmPassword, ageOrDob)
+  },
+
+  logout: () => Auth.logout(),
+
+  logoutAll: () => Auth.logoutAll(),
+}
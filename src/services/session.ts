@@ -0,0 +1,168 @@
+/**
+ * @file session.ts
+ * @description Client-side auth session store built on the token helpers in `auth.ts`.
+ * Decodes the JWT to track its expiry, caches the current user and renews the token
+ * shortly before it expires (ending the session if renewal is not possible).
+ */
+import { Auth, clearToken, getToken, TOKEN_EVENT, type User } from './auth'
+import { refreshToken } from './api'
+import { decodeJwt, type JwtClaims } from '../utils/jwt'
+
+/** Lifecycle of the local session. `expired` sticks until the next successful login. */
+export type SessionStatus = 'anonymous' | 'authenticated' | 'expired'
+
+/**
+ * Immutable snapshot of the current session.
+ */
+export type Session = {
+  /** Whether the stored token can be used. */
+  status: SessionStatus
+  /** Raw JWT while authenticated. */
+  token: string | null
+  /** Decoded token payload while authenticated. */
+  claims: JwtClaims | null
+  /** Expiry timestamp in ms, or `null` when the token has no `exp` claim. */
+  expiresAt: number | null
+  /** Profile returned by `/auth/me`; `null` until it has loaded. */
+  user: User | null
+}
+
+/** How long before `exp` the store tries to renew the token. */
+const REFRESH_SKEW_MS = 60_000
+/**
+ * Random extra lead time so several open tabs do not refresh at the same instant:
+ * the first one wins and the others pick up its token through the `storage` event.
+ */
+const REFRESH_JITTER_MS = 15_000
+/** Longest delay `setTimeout` accepts (~24.8 days). */
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+const EMPTY: Omit<Session, 'status'> = { token: null, claims: null, expiresAt: null, user: null }
+
+let current: Session = { status: 'anonymous', ...EMPTY }
+let started = false
+/** Set when the last session ended because its token expired. */
+let endedByExpiry = false
+/** Token whose `/auth/me` profile was last requested, to avoid duplicate calls. */
+let userRequestedFor: string | null = null
+let timer: number | undefined
+const listeners = new Set<() => void>()
+
+function emit(next: Session) {
+  current = next
+  listeners.forEach(l => l())
+}
+
+/**
+ * Loads the profile for `token` and stores it if the token is still current.
+ * @param token - Token the request is made with.
+ */
+function loadUser(token: string) {
+  userRequestedFor = token
+  Auth.me()
+    .then(r => {
+      if (current.token !== token) return
+      emit({ ...current, user: r?.user ?? null })
+    })
+    .catch(() => {
+      if (userRequestedFor === token) userRequestedFor = null
+    })
+}
+
+/**
+ * Arms a timer that renews the token `REFRESH_SKEW_MS` before `expiresAt`.
+ * When renewal fails, the session is re-evaluated (and ends) at the actual expiry.
+ * @param expiresAt - Token expiry in ms.
+ */
+function schedule(expiresAt: number) {
+  const refreshAt = expiresAt - REFRESH_SKEW_MS - Math.random() * REFRESH_JITTER_MS
+  timer = window.setTimeout(async () => {
+    if (Date.now() < refreshAt) return evaluate() // clamped long timer: re-arm
+    // A successful refresh calls setToken, which re-evaluates through TOKEN_EVENT.
+    if (await refreshToken()) return
+    timer = window.setTimeout(evaluate, Math.max(0, expiresAt - Date.now()))
+  }, Math.min(MAX_TIMER_MS, Math.max(0, refreshAt - Date.now())))
+}
+
+/**
+ * Recomputes the session from the stored token. Malformed or expired tokens are cleared,
+ * which re-enters this function through `TOKEN_EVENT`.
+ */
+function evaluate() {
+  window.clearTimeout(timer)
+  const token = getToken()
+  const claims = decodeJwt(token)
+
+  if (!token || !claims) {
+    if (token) return clearToken()
+    userRequestedFor = null
+    const status: SessionStatus = endedByExpiry ? 'expired' : 'anonymous'
+    if (current.status !== status || current.token) emit({ status, ...EMPTY })
+    return
+  }
+
+  const expiresAt = typeof claims.exp === 'number' ? claims.exp * 1000 : null
+  if (expiresAt !== null && expiresAt <= Date.now()) {
+    endedByExpiry = true
+    return clearToken()
+  }
+
+  endedByExpiry = false
+  if (current.token !== token || current.status !== 'authenticated') {
+    emit({ status: 'authenticated', token, claims, expiresAt, user: null })
+  }
+  if (expiresAt !== null) schedule(expiresAt)
+  if (!current.user && userRequestedFor !== token) loadUser(token)
+}
+
+/** Wires the store to token changes once, on first use. */
+function ensureStarted() {
+  if (started || typeof window === 'undefined') return
+  started = true
+  window.addEventListener(TOKEN_EVENT, evaluate)
+  // Timers are throttled in background tabs: re-check as soon as the tab is visible again.
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') evaluate()
+  })
+  evaluate()
+}
+
+/**
+ * Id of the user a session belongs to: the JWT subject (or a common id claim), else the
+ * `/auth/me` profile id. Claims come first because they are known before the profile loads.
+ * @param s - Session snapshot.
+ * @returns The id, or `null` when not authenticated or the session carries no id.
+ */
+export function sessionUserId(s: Session): string | null {
+  if (s.status !== 'authenticated') return null
+  const c = s.claims ?? {}
+  const id = [c.sub, c.id, c.userId, c.uid, s.user?.id].find(v => (typeof v === 'string' && v) || typeof v === 'number')
+  return id == null ? null : String(id)
+}
+
+/**
+ * Id of the signed-in user (see {@link sessionUserId}). Every module that keys data by user
+ * (outbox, query cache, ratings, watch progress) reads it from here so they always agree.
+ */
+export function currentUserId(): string | null {
+  return sessionUserId(getSession())
+}
+
+/**
+ * Returns the current session snapshot (stable between changes).
+ */
+export function getSession(): Session {
+  ensureStarted()
+  return current
+}
+
+/**
+ * Subscribes to session changes.
+ * @param listener - Called after every change.
+ * @returns Unsubscribe function.
+ */
+export function subscribeSession(listener: () => void) {
+  ensureStarted()
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
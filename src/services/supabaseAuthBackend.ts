@@ -0,0 +1,220 @@
+/**
+ * @file supabaseAuthBackend.ts
+ * @description Auth backend over the Supabase client: password recovery flow and Supabase user state.
+ */
+import type { AuthChangeEvent, User as SupaUser } from '@supabase/supabase-js'
+import type { AuthBackend, AuthEvent, AuthUser, RecoveryResult } from './authProvider'
+import { supa } from './supa'
+
+let user: AuthUser | null = null
+let started = false
+const listeners = new Set<(event: AuthEvent) => void>()
+
+function emit(event: AuthEvent) {
+  listeners.forEach(l => l(event))
+}
+
+/**
+ * Normalizes a Supabase user using its metadata for the display name.
+ * @param su - Supabase user.
+ */
+function fromSupabase(su: SupaUser): AuthUser {
+  const meta = (su.user_metadata ?? {}) as Record<string, any>
+  return {
+    id: su.id,
+    name: meta.full_name || meta.name || meta.username || null,
+    email: su.email ?? null,
+    source: 'supabase',
+  }
+}
+
+/**
+ * Fills the display name from the optional `profiles` table when metadata has none.
+ * @param id - Supabase user id.
+ */
+async function loadProfileName(id: string) {
+  try {
+    const { data: profile } = await supa
+      .from('profiles')
+      .select('full_name, name, username')
+      .eq('id', id)
+      .maybeSingle()
+    const name = profile?.full_name || profile?.name || profile?.username || null
+    if (name && user?.id === id && !user.name) {
+      user = { ...user, name }
+      emit('USER_UPDATED')
+    }
+  } catch {
+    /* noop */
+  }
+}
+
+/**
+ * Maps Supabase events onto the provider's smaller event set.
+ * `INITIAL_SESSION` is a session restored from storage, not a new sign-in: it maps to `USER_UPDATED`.
+ */
+function toEvent(event: AuthChangeEvent, signedIn: boolean): AuthEvent {
+  if (event === 'PASSWORD_RECOVERY') return 'PASSWORD_RECOVERY'
+  if (!signedIn) return 'SIGNED_OUT'
+  return event === 'SIGNED_IN' ? 'SIGNED_IN' : 'USER_UPDATED'
+}
+
+/** Starts mirroring the Supabase session on first use. */
+function ensureStarted() {
+  if (started) return
+  started = true
+  supa.auth.onAuthStateChange((event, session) => {
+    const su = session?.user
+    const hadUser = !!user
+    user = su ? (user?.id === su.id && user.name ? user : fromSupabase(su)) : null
+    if (!su && !hadUser && event !== 'PASSWORD_RECOVERY') return
+    emit(toEvent(event, !!su))
+    // Supabase discourages awaiting its client inside this callback: defer the lookup.
+    if (su && !user?.name) setTimeout(() => loadProfileName(su.id), 0)
+  })
+}
+
+/**
+ * Removes recovery params from the URL so a reload does not re-process the token.
+ * Keeps the route intact for hash routers.
+ */
+function cleanRecoveryParams() {
+  try {
+    const u = new URL(window.location.href)
+    if (u.hash.startsWith('#/')) window.history.replaceState({}, document.title, u.hash.split('?')[0])
+    else window.history.replaceState({}, document.title, window.location.pathname)
+  } catch {
+    /* noop */
+  }
+}
+
+export const supabaseAuthBackend: AuthBackend = {
+  source: 'supabase',
+
+  getUser() {
+    ensureStarted()
+    return user
+  },
+
+  onChange(listener) {
+    ensureStarted()
+    listeners.add(listener)
+    return () => { listeners.delete(listener) }
+  },
+
+  async login(email, password) {
+    const { error } = await supa.auth.signInWithPassword({ email, password })
+    if (error) throw error
+  },
+
+  async signup({ name, apellido, email, password, ageOrDob }) {
+    const { error } = await supa.auth.signUp({
+      email,
+      password,
+      options: { data: { name, apellido, age: ageOrDob ?? null } },
+    })
+    if (error) throw error
+  },
+
+  async logout() {
+    const { error } = await supa.auth.signOut()
+    if (error) throw error
+  },
+
+  async logoutAll() {
+    const { error } = await supa.auth.signOut({ scope: 'global' })
+    if (error) throw error
+  },
+
+  async requestPasswordReset(email, redirectTo) {
+    const { error } = await supa.auth.resetPasswordForEmail(email, { redirectTo })
+    if (error) throw error
+  },
+
+  /**
+   * Accepts every link shape Supabase has produced over time:
+   * PKCE `?code=`, legacy `#access_token=`, OTP `token_hash` / `token`+`email`,
+   * or an already-established session.
+   */
+  async verifyRecoveryLink(href): Promise<RecoveryResult> {
+    try {
+      const url = new URL(href)
+      const q = url.searchParams
+      const hash = new URLSearchParams(url.hash.replace(/^#/, ''))
+
+      const code = q.get('code') || undefined
+      const access_token = hash.get('access_token') || undefined
+      const token_hash = hash.get('token_hash') || q.get('token_hash') || undefined
+      const token = hash.get('token') || q.get('token') || undefined
+      const email = q.get('email') || hash.get('email') || undefined
+
+      // 1) PKCE: ?code=...
+      if (code) {
+        const { error } = await supa.auth.exchangeCodeForSession(href)
+        if (error) {
+          if (!email) throw error
+          const { error: vErr } = await supa.auth.verifyOtp({ email, token: code, type: 'recovery' })
+          if (vErr) throw vErr
+        }
+        cleanRecoveryParams()
+        return { ok: true }
+      }
+
+      // 2) Legado: #access_token=... → devolvemos el token por si no se logra crear sesión.
+      if (access_token) {
+        supa.auth.exchangeCodeForSession(href).finally(() => cleanRecoveryParams())
+        return { ok: true, accessToken: access_token }
+      }
+
+      // 3) OTP directo
+      if (token && email) {
+        const { error } = await supa.auth.verifyOtp({ email, token, type: 'recovery' })
+        if (error) throw error
+        cleanRecoveryParams()
+        return { ok: true }
+      }
+      if (token_hash) {
+        const { error } = await supa.auth.verifyOtp({ type: 'recovery', token_hash })
+        if (error) throw error
+        cleanRecoveryParams()
+        return { ok: true }
+      }
+
+      // 4) Por si quedaba sesión
+      const { data } = await supa.auth.getSession()
+      if (data.session) {
+        cleanRecoveryParams()
+        return { ok: true }
+      }
+      return { ok: false, reason: 'missing' }
+    } catch (e: any) {
+      return { ok: false, reason: 'invalid', message: e?.message }
+    }
+  },
+
+  async updatePassword(password, accessToken) {
+    if (!accessToken) {
+      const { error } = await supa.auth.updateUser({ password })
+      if (error) throw error
+      return
+    }
+    // Hash links with access_token may not yield a client session: call the Auth REST API directly.
+    const res = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/auth/v1/user`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY as string,
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ password }),
+    })
+    if (!res.ok) {
+      let detail = 'No se pudo actualizar la contraseña.'
+      try {
+        const data = await res.json()
+        detail = data?.error_description || data?.msg || detail
+      } catch { /* noop */ }
+      throw new Error(detail)
+    }
+  },
+}
@@ -4,6 +4,7 @@
  */
 
 import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { themes } from "./themes";
 
 export type ThemeName = "light" | "dark";
 
@@ -37,6 +38,8 @@ export const AppThemeProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     // Ensure native inputs/selects honor the chosen color scheme
     (root.style as any).colorScheme = themeName === "dark" ? "dark" : "light";
     try { localStorage.setItem(THEME_LS_KEY, themeName); } catch (_) { }
+    // Browser/installed-app toolbar follows the theme (meta injected by the PWA plugin)
+    document.querySelector('meta[name="theme-color"]')?.setAttribute("content", themes[themeName].colors.bg);
   }, [themeName]);
 
   const value = useMemo(
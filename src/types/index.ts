@@ -7,15 +7,42 @@
 export type ID = string
 
 /**
- * Movie payload returned by the backend.
+ * WebVTT subtitle track.
+ */
+export interface SubtitleTrack {
+  /** URL of the `.vtt` file. */
+  url: string
+  /** BCP 47 language code (`es`, `en`…; `und` when unknown). */
+  lang: string
+  /** Name shown in the language menu. */
+  label: string
+}
+
+/**
+ * Streaming source of a movie.
+ */
+export interface MovieSource {
+  /** Human readable label, e.g. 1080p. */
+  label: string
+  /** Stream URL. */
+  url: string
+  /** Optional subtitles provided for the source. */
+  subtitles?: SubtitleTrack[]
+}
+
+/**
+ * Canonical movie. API payloads are validated and normalized into this shape by
+ * `services/models.ts`; components never read raw backend fields.
  */
 export interface Movie {
   /** Unique identifier for the movie. */
-  _id: ID
+  id: ID
   /** Display title. */
   title: string
   /** Release year. */
-  year: number
+  year?: number
+  /** Release date (ISO), when known. */
+  releaseDate?: string
   /** Genre tags associated with the movie. */
   genres: string[]
   /** Optional poster URL. */
@@ -26,33 +53,40 @@ export interface Movie {
   description?: string
   /** Duration expressed in minutes. */
   durationMin?: number
-  /** Average rating from all users. */
+  /** Average rating from all users, 0-5. */
   avgRating?: number
+  /** Direct video URL, when the movie has a single stream. */
+  streamUrl?: string
   /** Streaming sources available for the movie. */
-  sources?: {
-    /** Human readable label, e.g. 1080p. */
-    label: string
-    /** Stream URL. */
-    url: string
-    /** Optional subtitles provided for the source. */
-    subtitles?: string[]
-  }[]
+  sources?: MovieSource[]
+  /** Subtitles shared by every source (used when a source has none of its own). */
+  subtitles?: SubtitleTrack[]
+  /** The signed-in user's own rating (1-5), when the endpoint includes it. */
+  userRating?: number
 }
 
 /**
- * User payload returned after authentication or profile queries.
+ * Canonical user, from authentication or profile queries.
  */
 export interface User {
   /** Unique identifier for the user. */
-  _id: ID
-  /** Full name. */
+  id: ID
+  /** First name (empty when unknown). */
   name: string
-  /** Primary email address. */
+  /** Last name. */
+  apellido?: string
+  /** Primary email address (empty when unknown). */
   email: string
+  /** Age in years. */
+  age?: number
+  /** Birth date (ISO). */
+  birthdate?: string
   /** Optional avatar URL. */
   avatarUrl?: string
-  /** Auth token returned by the API. */
-  token?: string
+  /** Creation timestamp (ISO). */
+  createdAt?: string
+  /** Last update timestamp (ISO). */
+  updatedAt?: string
 }
 
 /**
@@ -60,7 +94,7 @@ export interface User {
  */
 export interface Rating {
   /** Unique identifier for the rating entry. */
-  _id: ID
+  id: ID
   /** Related movie identifier. */
   movieId: ID
   /** Authoring user identifier. */
@@ -69,18 +103,76 @@ export interface Rating {
   stars: number
   /** Optional textual review. */
   comment?: string
+  /** Display name of the author, when the API includes it. */
+  userName?: string
+  /** ISO date of creation. */
+  createdAt?: string
+  /** ISO date of the last edit. */
+  updatedAt?: string
+  /** Number of users who found the review helpful. */
+  helpfulCount?: number
+  /** Whether the signed-in user marked the review as helpful. */
+  votedHelpful?: boolean
+}
+
+/**
+ * Aggregate of every rating of a movie.
+ */
+export interface RatingSummary {
+  /** Mean score (0 when there are no ratings). */
+  average: number
+  /** Number of ratings. */
+  count: number
+  /** Ratings per star value: `histogram[0]` counts 1-star ratings, `histogram[4]` 5-star ones. */
+  histogram: number[]
 }
 
 /**
  * Favorite relationship between a user and a movie.
  */
 export interface Favorite {
-  /** Unique identifier for the favorite entry. */
-  _id: ID
+  /** Unique identifier for the favorite entry (the movie id when the API has none). */
+  id: ID
   /** Related movie identifier. */
   movieId: ID
   /** Owner user identifier. */
-  userId: ID
-  /** Creation timestamp. */
-  createdAt: string
+  userId?: ID
+  /** Creation timestamp (ISO). */
+  createdAt?: string
+  /** Movie data, when the API expands favorites. */
+  movie?: Movie
+}
+
+/**
+ * How far a user got in a movie.
+ */
+export interface WatchProgress {
+  /** Related movie identifier. */
+  movieId: ID
+  /** Playback position in seconds. */
+  position: number
+  /** Movie length in seconds (0 when unknown). */
+  duration: number
+  /** Seen (almost) to the end. */
+  watched: boolean
+  /** Last time the position changed (ISO). */
+  updatedAt: string
+  /** Movie data, when the API expands it or it was kept locally. */
+  movie?: Movie
+}
+
+/**
+ * Page of results returned by list endpoints.
+ */
+export interface Paginated<T> {
+  /** Items on the current page. */
+  items: T[]
+  /** 1-based page number. */
+  page: number
+  /** Maximum number of items per page. */
+  pageSize: number
+  /** Total number of items matching the query. */
+  total: number
+  /** Total number of pages (at least 1). */
+  totalPages: number
 }
@@ -0,0 +1,45 @@
+/**
+ * @file jwt.ts
+ * @description Minimal JWT payload decoding (no signature verification) for client-side session checks.
+ */
+
+/**
+ * Subset of standard and profile claims the app reads from our tokens.
+ */
+export type JwtClaims = {
+  /** Subject (user id). */
+  sub?: string
+  /** Expiry as seconds since epoch. */
+  exp?: number
+  /** Issued-at as seconds since epoch. */
+  iat?: number
+  email?: string
+  name?: string
+  full_name?: string
+  given_name?: string
+  preferred_username?: string
+  [claim: string]: unknown
+}
+
+/**
+ * Decodes the payload segment of a JWT.
+ * @param token - Raw JWT (`header.payload.signature`).
+ * @returns The parsed claims, or `null` when the token is malformed.
+ */
+export function decodeJwt(token: string | null | undefined): JwtClaims | null {
+  if (!token) return null
+  const parts = token.split('.')
+  if (parts.length !== 3 || !parts[1]) return null
+  try {
+    const b64 = parts[1].replace(/-/g, '+').replace(/_/g, '/')
+    const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4)
+    const json = JSON.parse(decodeURIComponent(
+      Array.from(atob(padded), c => '%' + c.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+    ))
+    if (!json || typeof json !== 'object') return null
+    if (json.exp != null && !Number.isFinite(Number(json.exp))) return null
+    return json as JwtClaims
+  } catch {
+    return null
+  }
+}
@@ -4,19 +4,24 @@
  */
 
 /**
- * Normalizes different network error shapes (fetch, Axios, Supabase) to a single message.
+ * Normalizes different network error shapes (ApiError, fetch, Axios, Supabase) to a single message.
  * @param err - Error object thrown by a network request.
  * @returns Localized, user-friendly message describing the failure.
  */
 export function mapNetError(err: any): string {
   const resp = err?.response
-  const status = resp?.status
+  // ApiError (services/api.ts) exposes `status` directly; Axios nests it under `response`.
+  const status = resp?.status ?? err?.status
   const msg =
     resp?.data?.error?.message ||
     resp?.data?.message ||
     err?.message
 
   if (err?.name === 'AbortError') return 'La peticion fue cancelada.'
+  if (err?.code === 'ERR_TIMEOUT') return 'El servidor tardo demasiado en responder. Intenta de nuevo.'
+  if ((status === 0 || err?.code === 'ERR_NETWORK') && typeof navigator !== 'undefined' && !navigator.onLine) {
+    return 'Sin conexion. Solo esta disponible el contenido guardado en este dispositivo.'
+  }
   if (status === 0 || err?.code === 'ERR_NETWORK') return 'Sin conexion o el servidor no responde.'
   if (status >= 500) return 'Servidor temporalmente no disponible. Intenta mas tarde.'
   if (status === 404) return 'Recurso no encontrado.'
@@ -0,0 +1,65 @@
+/**
+ * @file playerPrefs.ts
+ * @description Video player preferences (quality and subtitle language) kept in localStorage,
+ * plus helpers to order and choose between the sources of a movie.
+ */
+import type { MovieSource } from '../types'
+
+const KEY = 'player-prefs'
+
+/** Preferences remembered between movies. */
+export interface PlayerPrefs {
+  /** Label of the last quality picked (`1080p`, `720p`…). */
+  quality?: string
+  /** Language of the last subtitles picked; `null` means subtitles off. */
+  subtitleLang?: string | null
+}
+
+/** Returns the stored preferences (empty when nothing was saved). */
+export function getPlayerPrefs(): PlayerPrefs {
+  try {
+    const raw = JSON.parse(localStorage.getItem(KEY) || '{}')
+    return raw && typeof raw === 'object' ? raw : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Merges `patch` into the stored preferences.
+ * @param patch - Preferences to update.
+ */
+export function savePlayerPrefs(patch: PlayerPrefs) {
+  try {
+    localStorage.setItem(KEY, JSON.stringify({ ...getPlayerPrefs(), ...patch }))
+  } catch {
+    /* noop */
+  }
+}
+
+/** Vertical resolution encoded in a quality label (`720p` → 720, `4K` → 2160), 0 if none. */
+export function heightOf(label: string) {
+  if (/\b4k\b/i.test(label)) return 2160
+  const m = label.match(/(\d{3,4})p/i)
+  return m ? Number(m[1]) : 0
+}
+
+/** Sources ordered from the highest to the lowest quality; unlabelled ones keep their order at the end. */
+export function sortSources(sources: MovieSource[]) {
+  return [...sources].sort((a, b) => heightOf(b.label) - heightOf(a.label))
+}
+
+/**
+ * Chooses the source to play: the preferred label, else the closest resolution, else the first one.
+ * @param sources - Sources of the movie (sorted by `sortSources`).
+ * @param preferred - Remembered quality label.
+ */
+export function pickSource(sources: MovieSource[], preferred?: string): MovieSource | undefined {
+  if (!preferred) return sources[0]
+  const exact = sources.find(s => s.label === preferred)
+  if (exact) return exact
+  const target = heightOf(preferred)
+  if (!target) return sources[0]
+  return sources.reduce((best, s) =>
+    Math.abs(heightOf(s.label) - target) < Math.abs(heightOf(best.label) - target) ? s : best, sources[0])
+}
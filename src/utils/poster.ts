@@ -3,20 +3,19 @@
  * @description Utilities for resolving poster URLs from movie payloads.
  */
 import { slugify } from './slug'
+import type { Movie } from '../types'
 
 /**
- * Generates candidate poster URLs based on the movie title, slug and year.
- * @param m - Movie-like object containing title, slug or release metadata.
+ * Generates candidate poster URLs based on the movie title and year.
+ * @param m - Movie (title and year are used).
  * @returns Unique list of poster paths relative to `/public/posters`.
  */
-export function posterCandidatesFrom(m: any): string[] {
-  const title = String(m?.title ?? '').trim()
-  const year =
-    m?.year ? String(m.year)
-      : (typeof m?.release_date === 'string' ? m.release_date.slice(0, 4) : undefined)
+export function posterCandidatesFrom(m: Pick<Movie, 'title' | 'year'>): string[] {
+  const title = String(m.title ?? '').trim()
+  const year = m.year ? String(m.year) : undefined
 
-  // Slug base principal (desde slug o título)
-  const primary = slugify(m?.slug ?? title)
+  // Slug base principal (desde el título)
+  const primary = slugify(title)
 
   // Variantes heurísticas para coincidir con archivos locales típicos.
   // 1) sin artículo inicial (the/a/an)
@@ -0,0 +1,55 @@
+/**
+ * @file recentSearches.ts
+ * @description Per-user list of recent search terms kept in localStorage.
+ */
+
+const PREFIX = 'recent-searches:'
+/** Maximum number of terms kept per user. */
+const MAX_RECENT = 8
+
+function keyFor(userId: string | null | undefined) {
+  return PREFIX + (userId || 'anon')
+}
+
+/**
+ * Returns the recent terms of a user, most recent first.
+ * @param userId - Current user id (`null` for anonymous).
+ */
+export function getRecentSearches(userId: string | null | undefined): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(keyFor(userId)) || '[]')
+    return Array.isArray(raw) ? raw.filter((t): t is string => typeof t === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Moves `term` to the top of the user's list (case-insensitive de-dupe).
+ * @param userId - Current user id (`null` for anonymous).
+ * @param term - Search text as typed.
+ * @returns The updated list.
+ */
+export function addRecentSearch(userId: string | null | undefined, term: string): string[] {
+  const t = term.trim()
+  if (!t) return getRecentSearches(userId)
+  const next = [t, ...getRecentSearches(userId).filter(x => x.toLowerCase() !== t.toLowerCase())].slice(0, MAX_RECENT)
+  try {
+    localStorage.setItem(keyFor(userId), JSON.stringify(next))
+  } catch {
+    /* noop */
+  }
+  return next
+}
+
+/**
+ * Removes every recent term of the user.
+ * @param userId - Current user id (`null` for anonymous).
+ */
+export function clearRecentSearches(userId: string | null | undefined) {
+  try {
+    localStorage.removeItem(keyFor(userId))
+  } catch {
+    /* noop */
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @file recommend.ts
+ * @description Content-based recommendations computed on the client: every catalog movie is
+ * compared with the movies the user liked (favorites, good ratings) by genres, release year
+ * and description keywords. Pure functions over plain data, so they run without a
+ * recommender service and are easy to test.
+ */
+import { tokenize } from './searchIndex'
+import type { Movie } from '../types'
+
+/** A movie the user liked and how strongly (0-1). */
+export type Liked = { movie: Movie; weight: number }
+
+/** A recommended movie and the liked movie that contributed most to it. */
+export type Recommendation = { movie: Movie; score: number; because: Movie }
+
+/** Relative importance of each signal in {@link similarity}. */
+const WEIGHTS = { genres: 0.55, keywords: 0.3, year: 0.15 }
+/** Release-year gap at which the year signal halves. */
+const YEAR_HALF_LIFE = 8
+/** Scores below this are not worth recommending (a close year alone stays under it). */
+const MIN_SCORE = 0.2
+
+/** Frequent words that say nothing about a plot (Spanish and English). */
+const STOPWORDS = new Set([
+  'para', 'pero', 'como', 'cuando', 'donde', 'desde', 'hasta', 'entre', 'sobre', 'tras', 'este', 'esta',
+  'estos', 'estas', 'ella', 'ellos', 'ellas', 'todo', 'toda', 'todos', 'todas', 'otro', 'otra', 'otros',
+  'porque', 'mientras', 'tiene', 'tienen', 'puede', 'pueden', 'hace', 'hacer', 'vida', 'historia', 'cuya',
+  'cuyo', 'sido', 'será', 'sera', 'mismo', 'misma', 'nuevo', 'nueva', 'antes', 'después', 'despues',
+  'that', 'this', 'with', 'from', 'they', 'their', 'them', 'when', 'where', 'which', 'while', 'into',
+  'after', 'before', 'about', 'there', 'have', 'must', 'will', 'what', 'film', 'movie', 'story',
+])
+
+/**
+ * Distinctive words of a description (folded, 4+ letters, no stopwords).
+ * @param text - Description text.
+ */
+export function keywordsOf(text?: string): Set<string> {
+  return new Set(
+    tokenize(text ?? '')
+      .map(t => t.term)
+      .filter(t => t.length >= 4 && !STOPWORDS.has(t) && !/^\d+$/.test(t))
+  )
+}
+
+function jaccard<T>(a: Set<T>, b: Set<T>) {
+  if (!a.size || !b.size) return 0
+  let shared = 0
+  for (const x of a) if (b.has(x)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+type Profile = { movie: Movie; genres: Set<string>; keywords: Set<string> }
+
+function profileOf(movie: Movie): Profile {
+  return { movie, genres: new Set(movie.genres.map(g => g.toLowerCase())), keywords: keywordsOf(movie.description) }
+}
+
+/**
+ * Similarity of two movies, between 0 and 1. Signals a movie lacks (no genres, no year,
+ * no description) are left out and the rest re-weighted; the year alone is not enough.
+ */
+function similarity(a: Profile, b: Profile) {
+  let total = 0
+  let weight = 0
+  if (a.genres.size && b.genres.size) {
+    total += WEIGHTS.genres * jaccard(a.genres, b.genres)
+    weight += WEIGHTS.genres
+  }
+  if (a.keywords.size && b.keywords.size) {
+    // Descriptions share few words even when close: the square root spreads small overlaps
+    total += WEIGHTS.keywords * Math.sqrt(jaccard(a.keywords, b.keywords))
+    weight += WEIGHTS.keywords
+  }
+  if (!weight) return 0
+  if (a.movie.year && b.movie.year) {
+    total += WEIGHTS.year * 0.5 ** (Math.abs(a.movie.year - b.movie.year) / YEAR_HALF_LIFE)
+    weight += WEIGHTS.year
+  }
+  return weight ? total / weight : 0
+}
+
+/**
+ * Ranks the catalog against the liked movies. Each candidate scores the best
+ * `weight × similarity` over the liked movies, and that liked movie is its `because`.
+ * @param catalog - Every movie that may be recommended.
+ * @param liked - Movies the user liked.
+ * @param exclude - Ids never recommended (favorites, already rated…); liked movies are always excluded.
+ * @param limit - Maximum number of recommendations.
+ * @returns Best first.
+ */
+export function recommend(catalog: Movie[], liked: Liked[], exclude: Set<string> = new Set(), limit = 12): Recommendation[] {
+  const likes = liked.filter(l => l.weight > 0).map(l => ({ profile: profileOf(l.movie), weight: l.weight }))
+  if (!likes.length) return []
+  const skip = new Set([...exclude, ...liked.map(l => l.movie.id)])
+
+  const out: Recommendation[] = []
+  for (const movie of catalog) {
+    if (skip.has(movie.id)) continue
+    const candidate = profileOf(movie)
+    let best: Recommendation | null = null
+    for (const { profile, weight } of likes) {
+      const score = weight * similarity(candidate, profile)
+      if (!best || score > best.score) best = { movie, score, because: profile.movie }
+    }
+    if (best && best.score >= MIN_SCORE) out.push(best)
+  }
+  return out.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,30 @@
+/**
+ * @file registerServiceWorker.ts
+ * @description Registers `public/sw.js` in production builds. The API origin is passed in the
+ * script URL so the worker knows which requests to cache (and re-installs if it changes).
+ * On logout the worker is told to drop its cached API responses.
+ */
+import { getSession, subscribeSession } from '../services/session'
+
+/**
+ * Registers the service worker once the page has loaded. No-op in dev and unsupported browsers.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  const api = import.meta.env.VITE_API_URL || ''
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`/sw.js?api=${encodeURIComponent(api)}`)
+      .catch(err => console.warn('No se pudo registrar el service worker:', err))
+  })
+
+  // Only an actual logout clears it: an expired token keeps the copies for offline use
+  let prev = getSession().status
+  subscribeSession(() => {
+    const next = getSession().status
+    if (prev === 'authenticated' && next === 'anonymous') {
+      navigator.serviceWorker.controller?.postMessage({ type: 'clear-api-cache' })
+    }
+    prev = next
+  })
+}
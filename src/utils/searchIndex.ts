@@ -0,0 +1,174 @@
+/**
+ * @file searchIndex.ts
+ * @description Small in-memory full-text index: accent-insensitive (via `slugify`),
+ * prefix and typo-tolerant matching, per-field weights and match ranges for highlighting.
+ */
+import { slugify } from './slug'
+
+/** Indexed fields, from most to least relevant. */
+export type SearchField = 'title' | 'genres' | 'description'
+
+/** `[start, end)` character range in the original field text. */
+export type MatchRange = [number, number]
+
+/** One search result. */
+export type SearchHit<T> = {
+  item: T
+  /** Higher is better. */
+  score: number
+  /** Ranges to highlight, per field that matched. */
+  matches: Partial<Record<SearchField, MatchRange[]>>
+}
+
+/** Relative importance of each field. */
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, genres: 2, description: 1 }
+
+/** Match quality multipliers. */
+const EXACT = 1
+const PREFIX = 0.8
+const FUZZY = 0.6
+
+type Token = { term: string; start: number; end: number }
+type Posting = { doc: number; field: SearchField; start: number; end: number }
+
+/**
+ * Splits text into words, folding each with `slugify` (lowercase, no diacritics)
+ * while keeping the original offsets.
+ * @param text - Raw field text.
+ */
+export function tokenize(text: string): Token[] {
+  const out: Token[] = []
+  for (const m of (text || '').matchAll(/[\p{L}\p{N}]+/gu)) {
+    const term = slugify(m[0]).replace(/-/g, '')
+    if (term) out.push({ term, start: m.index!, end: m.index! + m[0].length })
+  }
+  return out
+}
+
+/** Typos allowed for a query word of this length. */
+function maxEdits(len: number) {
+  return len <= 3 ? 0 : len <= 6 ? 1 : 2
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein + adjacent transpositions),
+ * giving up as soon as it exceeds `max`.
+ * @returns The distance, or `max + 1` when larger.
+ */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prev2: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let v = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) v = Math.min(v, prev2[j - 2] + 1)
+      cur[j] = v
+      rowMin = Math.min(rowMin, v)
+    }
+    if (rowMin > max) return max + 1
+    prev2 = prev
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+/**
+ * How well query word `q` matches indexed word `term` (0 = no match).
+ * Prefixes count so results appear while typing; fuzzy prefixes tolerate typos mid-word.
+ */
+function matchQuality(q: string, term: string) {
+  if (q === term) return EXACT
+  if (q.length >= 2 && term.startsWith(q)) return PREFIX
+  const max = maxEdits(q.length)
+  if (!max) return 0
+  const d = editDistance(q, term, max)
+  if (d <= max) return FUZZY * (1 - (d - 1) * 0.25)
+  if (term.length > q.length && editDistance(q, term.slice(0, q.length), max) <= max) return FUZZY * 0.75
+  return 0
+}
+
+/**
+ * In-memory index over a list of items.
+ */
+export type SearchIndex<T> = {
+  /** Number of indexed items. */
+  readonly size: number
+  /**
+   * Returns the items matching every word of `query`, best first.
+   * @param query - Free text as typed by the user.
+   * @param limit - Maximum number of hits (default: all).
+   */
+  search(query: string, limit?: number): SearchHit<T>[]
+}
+
+/**
+ * Builds a {@link SearchIndex}.
+ * @param items - Items to index.
+ * @param fieldsOf - Extracts the searchable text of each field from an item.
+ */
+export function createSearchIndex<T>(
+  items: T[],
+  fieldsOf: (item: T) => Record<SearchField, string>
+): SearchIndex<T> {
+  const postings = new Map<string, Posting[]>()
+  const titles: string[] = []
+
+  items.forEach((item, doc) => {
+    const fields = fieldsOf(item)
+    titles[doc] = slugify(fields.title).replace(/-/g, ' ')
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      for (const t of tokenize(fields[field])) {
+        const list = postings.get(t.term)
+        const p = { doc, field, start: t.start, end: t.end }
+        if (list) list.push(p)
+        else postings.set(t.term, [p])
+      }
+    }
+  })
+  const vocabulary = [...postings.keys()]
+
+  return {
+    size: items.length,
+    search(query, limit) {
+      const words = [...new Set(tokenize(query).map(t => t.term))]
+      if (!words.length) return []
+
+      const scores = new Map<number, number>()
+      const hits = new Map<number, Partial<Record<SearchField, MatchRange[]>>>()
+
+      for (let w = 0; w < words.length; w++) {
+        // Best score this word reaches in each document
+        const best = new Map<number, number>()
+        for (const term of vocabulary) {
+          const quality = matchQuality(words[w], term)
+          if (!quality) continue
+          for (const p of postings.get(term)!) {
+            if (w > 0 && !scores.has(p.doc)) continue // every word must match
+            const s = quality * FIELD_WEIGHTS[p.field]
+            if (s > (best.get(p.doc) ?? 0)) best.set(p.doc, s)
+            const ranges = hits.get(p.doc) ?? {}
+            ;(ranges[p.field] ??= []).push([p.start, p.end])
+            hits.set(p.doc, ranges)
+          }
+        }
+        for (const doc of [...scores.keys()]) if (!best.has(doc)) scores.delete(doc)
+        for (const [doc, s] of best) scores.set(doc, (w === 0 ? 0 : scores.get(doc)!) + s)
+      }
+
+      // Small boost when the folded title starts with the folded query
+      const phrase = words.join(' ')
+      const ranked = [...scores.entries()]
+        .map(([doc, score]) => ({
+          item: items[doc],
+          score: score + (titles[doc].startsWith(phrase) ? 1 : 0),
+          matches: hits.get(doc) ?? {},
+        }))
+        .sort((a, b) => b.score - a.score)
+      return limit ? ranked.slice(0, limit) : ranked
+    },
+  }
+}
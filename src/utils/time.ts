@@ -0,0 +1,16 @@
+/**
+ * @file time.ts
+ * @description Formatting of playback times.
+ */
+
+/**
+ * Formats seconds as a clock: `34:12`, or `1:05:09` past the hour.
+ * @param seconds - Time in seconds (negative or invalid values count as 0).
+ */
+export function formatClock(seconds: number) {
+  const total = Number.isFinite(seconds) && seconds > 0 ? Math.floor(seconds) : 0
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
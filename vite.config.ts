@@ -1,9 +1,137 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'node:fs'
 import path from 'node:path'
+import { lightTheme } from './src/theme/themes'
+
+/**
+ * Emits `precache-manifest.json` with every file of the build, so the service worker
+ * (public/sw.js) can precache the app shell on install.
+ */
+function precacheManifest(): Plugin {
+	return {
+		name: 'precache-manifest',
+		apply: 'build',
+		generateBundle(_options, bundle) {
+			const files = Object.keys(bundle)
+				.filter(f => !f.endsWith('.map'))
+				.map(f => `/${f}`)
+			this.emitFile({
+				type: 'asset',
+				fileName: 'precache-manifest.json',
+				source: JSON.stringify({ files }),
+			})
+		},
+	}
+}
+
+/** Content types of the files under `fixtures/`. */
+const FIXTURE_TYPES: Record<string, string> = {
+	'.m3u8': 'application/vnd.apple.mpegurl',
+	'.ts': 'video/mp2t',
+	'.vtt': 'text/vtt',
+	'.mp4': 'video/mp4',
+}
+
+/**
+ * Serves `fixtures/` (e.g. the HLS test stream) under `/fixtures/` on the dev server only,
+ * so the binaries never end up in a production build.
+ */
+function devFixtures(): Plugin {
+	const root = path.resolve(__dirname, 'fixtures')
+	return {
+		name: 'dev-fixtures',
+		apply: 'serve',
+		configureServer(server) {
+			server.middlewares.use('/fixtures', (req, res, next) => {
+				const file = path.join(root, decodeURIComponent((req.url ?? '/').split('?')[0]))
+				const type = FIXTURE_TYPES[path.extname(file)]
+				if (!file.startsWith(root + path.sep) || !type || !fs.existsSync(file)) return next()
+				res.setHeader('Content-Type', type)
+				fs.createReadStream(file).pipe(res)
+			})
+		},
+	}
+}
+
+/**
+ * Web app manifest: makes the site installable. Colors come from the light theme
+ * (src/theme/themes.ts); the share target sends shared text to `/share`, which
+ * redirects to the movie search. PNG icons (rendered from the SVGs in public/brand)
+ * cover browsers that do not accept SVG icons.
+ */
+const webManifest = {
+	name: 'PYRA',
+	short_name: 'PYRA',
+	description: 'Explora películas, guarda tus favoritas y míralas donde quieras.',
+	lang: 'es',
+	dir: 'ltr',
+	id: '/',
+	start_url: '/',
+	scope: '/',
+	display: 'standalone',
+	background_color: lightTheme.colors.bg,
+	theme_color: lightTheme.colors.bg,
+	icons: [
+		{ src: '/brand/pyra-icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+		{ src: '/brand/pyra-icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+		{ src: '/brand/pyra-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+		{ src: '/brand/pyra-icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+		{ src: '/brand/pyra-maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+	],
+	shortcuts: [
+		{
+			name: 'Favoritos',
+			short_name: 'Favoritos',
+			description: 'Tus películas guardadas',
+			url: '/favorites',
+			icons: [{ src: '/brand/pyra-icon-192.png', sizes: '192x192', type: 'image/png' }],
+		},
+		{
+			name: 'Películas',
+			short_name: 'Películas',
+			description: 'Explorar el catálogo',
+			url: '/movies',
+			icons: [{ src: '/brand/pyra-icon-192.png', sizes: '192x192', type: 'image/png' }],
+		},
+	],
+	share_target: {
+		action: '/share',
+		method: 'GET',
+		params: { title: 'title', text: 'text', url: 'url' },
+	},
+}
+
+/**
+ * Serves (dev) or emits (build) `manifest.webmanifest` and links it from `index.html`
+ * together with the initial `theme-color` and the iOS `apple-touch-icon`.
+ */
+function pwaManifest(): Plugin {
+	const source = JSON.stringify(webManifest, null, 2)
+	return {
+		name: 'pwa-manifest',
+		configureServer(server) {
+			server.middlewares.use('/manifest.webmanifest', (_req, res) => {
+				res.setHeader('Content-Type', 'application/manifest+json')
+				res.end(source)
+			})
+		},
+		generateBundle() {
+			this.emitFile({ type: 'asset', fileName: 'manifest.webmanifest', source })
+		},
+		transformIndexHtml() {
+			return [
+				{ tag: 'link', attrs: { rel: 'manifest', href: '/manifest.webmanifest' }, injectTo: 'head' },
+				{ tag: 'meta', attrs: { name: 'theme-color', content: webManifest.theme_color }, injectTo: 'head' },
+				// iOS ignores manifest icons
+				{ tag: 'link', attrs: { rel: 'apple-touch-icon', href: '/brand/apple-touch-icon.png' }, injectTo: 'head' },
+			]
+		},
+	}
+}
 
 export default defineConfig({
-	plugins: [react()],
+	plugins: [react(), precacheManifest(), pwaManifest(), devFixtures()],
 	resolve: {
 		alias: {
 			'@': path.resolve(__dirname, 'src'),